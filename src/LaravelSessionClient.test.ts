@@ -0,0 +1,278 @@
+import * as crypto from 'crypto';
+import { LaravelSessionClient } from './LaravelSessionClient';
+import { MemoryStore } from './stores/MemoryStore';
+import { buildSession } from './testing/fixtures';
+
+const appKey = `base64:${crypto.randomBytes(32).toString('base64')}`;
+
+describe('LaravelSessionClient', () => {
+  let store: MemoryStore;
+  let client: LaravelSessionClient;
+
+  const login = async (userId: number, options: Parameters<typeof buildSession>[1] = {}) => {
+    const session = buildSession(userId, { appKey, ...options });
+    await store.writeSession(session.record);
+    return session;
+  };
+
+  beforeEach(() => {
+    store = new MemoryStore().addUser({ id: 1, email: 'user@example.com' }, 'Admin');
+    client = new LaravelSessionClient({ appKey, session: { driver: 'memory' }, store });
+  });
+
+  describe('session write-back', () => {
+    it('puts values and writes them back to the store', async () => {
+      const session = await login(1);
+
+      await client.put(session.sessionId, 'locale', 'fr');
+      await client.put(session.sessionId, { theme: 'dark', cart: [1, 2] });
+
+      expect(await client.getSessionData(session.sessionId)).toMatchObject({
+        _token: session.csrfToken,
+        locale: 'fr',
+        theme: 'dark',
+        cart: [1, 2],
+      });
+    });
+
+    it('forgets keys', async () => {
+      const session = await login(1, { data: { locale: 'fr', theme: 'dark', cart: [1] } });
+
+      await client.forget(session.sessionId, 'locale');
+      await client.forget(session.sessionId, ['theme', 'cart']);
+
+      const sessionData = await client.getSessionData(session.sessionId);
+      expect(sessionData).not.toHaveProperty('locale');
+      expect(sessionData).not.toHaveProperty('theme');
+      expect(sessionData).not.toHaveProperty('cart');
+    });
+
+    it('flashes values for the next Laravel request', async () => {
+      const session = await login(1, { data: { _flash: { old: ['status'], new: ['error'] } } });
+
+      await client.flash(session.sessionId, 'status', 'Saved');
+
+      expect(await client.getSessionData(session.sessionId)).toMatchObject({
+        status: 'Saved',
+        _flash: { old: [], new: ['error', 'status'] },
+      });
+    });
+
+    it('replaces the session data on save and keeps the session valid', async () => {
+      const session = await login(1);
+      const sessionData = (await client.getSessionData(session.sessionId))!;
+
+      await client.save(session.sessionId, { ...sessionData, locale: 'de' });
+
+      expect((await client.getSessionData(session.sessionId))?.locale).toBe('de');
+      expect((await client.validateSession(session.cookieValue)).valid).toBe(true);
+    });
+
+    it('touches the last activity', async () => {
+      const session = await login(1, { lastActivity: 1700000000 });
+
+      await client.touch(session.sessionId);
+
+      expect((await store.getSession(session.sessionId))!.last_activity).toBeGreaterThan(
+        1700000000
+      );
+    });
+
+    it('fails for unknown sessions', async () => {
+      await expect(client.put('missing', 'locale', 'fr')).rejects.toThrow('Session not found');
+    });
+  });
+
+  describe('createSession', () => {
+    it('issues a Laravel session cookie that validates as the user', async () => {
+      const created = await client.createSession(1, {
+        data: { locale: 'fr' },
+        ipAddress: '10.0.0.1',
+        userAgent: 'Browser',
+      });
+
+      expect(await client.validateSession(created.cookieValue)).toMatchObject({
+        valid: true,
+        sessionId: created.sessionId,
+        user: { id: 1 },
+        csrfToken: created.csrfToken,
+      });
+      expect(await store.getSession(created.sessionId)).toMatchObject({
+        user_id: 1,
+        ip_address: '10.0.0.1',
+        user_agent: 'Browser',
+      });
+      expect(created.sessionData).toMatchObject({
+        _previous: { url: '/' },
+        _flash: { old: [], new: [] },
+        locale: 'fr',
+      });
+      expect(created.sessionId).toMatch(/^[a-zA-Z0-9]{40}$/);
+    });
+
+    it('logs the user in with the given guard', async () => {
+      store.addUser({ id: 1, email: 'admin@example.com' }, 'Admin', null, 'admins');
+      const admin = new LaravelSessionClient({
+        appKey,
+        session: { driver: 'memory' },
+        store,
+        guards: ['web', { name: 'admin', provider: { table: 'admins' } }],
+      });
+
+      const created = await admin.createSession(1, { guard: 'admin' });
+
+      expect(await admin.validateSession(created.cookieValue)).toMatchObject({
+        valid: true,
+        guard: 'admin',
+        user: { email: 'admin@example.com' },
+      });
+    });
+
+    it('requires an APP_KEY', async () => {
+      const withoutKey = new LaravelSessionClient({ session: { driver: 'memory' }, store });
+
+      await expect(withoutKey.createSession(1)).rejects.toThrow('APP_KEY is required');
+    });
+  });
+
+  describe('destroying sessions', () => {
+    it('destroys a session and drops its cached validation', async () => {
+      const session = await login(1);
+      const cached = new LaravelSessionClient({
+        appKey,
+        session: { driver: 'memory' },
+        store,
+        cache: { ttl: 60 },
+      });
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(true);
+
+      await cached.destroySession(session.sessionId);
+
+      expect(await store.getSession(session.sessionId)).toBeNull();
+      expect(await cached.validateSession(session.cookieValue)).toMatchObject({
+        valid: false,
+        error: 'Session not found',
+      });
+    });
+
+    it("destroys every session of a user and leaves other users' sessions", async () => {
+      store.addUser({ id: 2, email: 'other@example.com' });
+      const first = await login(1);
+      const second = await login(1);
+      const other = await login(2);
+
+      expect(await client.destroyAllSessionsForUser(1)).toBe(2);
+
+      expect(await store.getSession(first.sessionId)).toBeNull();
+      expect(await store.getSession(second.sessionId)).toBeNull();
+      expect(await store.getSession(other.sessionId)).not.toBeNull();
+    });
+
+    it('finds the user of sessions without a user_id column in the payload', async () => {
+      const session = buildSession(1, { appKey });
+      await store.writeSession({ ...session.record, user_id: null });
+
+      expect(await client.destroyAllSessionsForUser(1)).toBe(1);
+      expect(await store.getSession(session.sessionId)).toBeNull();
+    });
+
+    it('destroys the sessions and cached validations of users with string IDs', async () => {
+      const uuid = '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d';
+      store.addUser({ id: uuid as any, email: 'uuid@example.com' }, 'Admin');
+      const session = buildSession(uuid as any, { appKey });
+      await store.writeSession({ ...session.record, user_id: null });
+      const cached = new LaravelSessionClient({
+        appKey,
+        session: { driver: 'memory' },
+        store,
+        cache: { ttl: 60 },
+      });
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(true);
+
+      expect(await cached.destroyAllSessionsForUser(uuid as any)).toBe(1);
+
+      expect(await store.getSession(session.sessionId)).toBeNull();
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(false);
+    });
+  });
+
+  describe('validation cache', () => {
+    let cached: LaravelSessionClient;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      cached = new LaravelSessionClient({
+        appKey,
+        session: { driver: 'memory' },
+        store,
+        cache: { ttl: 60, negativeTtl: 5 },
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('reuses valid results until the TTL passes', async () => {
+      const session = await login(1);
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(true);
+
+      await store.destroySession(session.sessionId);
+
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(true);
+      jest.advanceTimersByTime(61 * 1000);
+      expect(await cached.validateSession(session.cookieValue)).toMatchObject({
+        valid: false,
+        error: 'Session not found',
+      });
+    });
+
+    it('caches missing sessions for the negative TTL', async () => {
+      const session = buildSession(1, { appKey });
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(false);
+
+      await store.writeSession(session.record);
+
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(false);
+      jest.advanceTimersByTime(6 * 1000);
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(true);
+    });
+
+    it('does not cache rule failures', async () => {
+      store.addUser({ id: 2, email: '2fa@example.com', google2fa_enable: 1 }, 'Admin');
+      const pending = await login(2, { twoFactorVerified: false });
+      expect(await cached.validateSession(pending.cookieValue)).toMatchObject({
+        valid: false,
+        reason: '2fa_required',
+      });
+
+      await login(2, { sessionId: pending.sessionId, twoFactorVerified: true });
+
+      expect((await cached.validateSession(pending.cookieValue)).valid).toBe(true);
+    });
+
+    it('revalidates requests from another IP address or user agent', async () => {
+      const session = await login(1);
+      const request = { ipAddress: '10.0.0.1', userAgent: 'Browser' };
+      expect((await cached.validateSession(session.cookieValue, request)).valid).toBe(true);
+
+      await store.destroySession(session.sessionId);
+
+      expect((await cached.validateSession(session.cookieValue, request)).valid).toBe(true);
+      expect(
+        (await cached.validateSession(session.cookieValue, { ...request, ipAddress: '10.0.0.2' }))
+          .valid
+      ).toBe(false);
+    });
+
+    it('drops the cached results of a user', async () => {
+      const session = await login(1);
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(true);
+
+      await store.destroySession(session.sessionId);
+      await cached.invalidateUser(1);
+
+      expect((await cached.validateSession(session.cookieValue)).valid).toBe(false);
+    });
+  });
+});
@@ -1,15 +1,38 @@
 import { SessionDecoder } from './decoders/SessionDecoder';
 import { DatabaseStore } from './stores/DatabaseStore';
 import { RedisStore } from './stores/RedisStore';
+import { FileStore } from './stores/FileStore';
 import { SessionValidator } from './validators/SessionValidator';
 import { StoreInterface } from './stores/StoreInterface';
-import { LaravelSessionConfig, SessionValidationResult } from './types';
+import { ValidationCache } from './cache/ValidationCache';
+import { MemoryValidationCache } from './cache/MemoryValidationCache';
+import { RedisValidationCache } from './cache/RedisValidationCache';
+import {
+  CreateSessionOptions,
+  CreatedSession,
+  DecryptionOptions,
+  EncryptionOptions,
+  GuardConfig,
+  LaravelSessionConfig,
+  RememberOptions,
+  SessionData,
+  SessionRecord,
+  SessionValidationResult,
+  StoreDriverFactory,
+  StoreDriverOptions,
+  ValidateSessionOptions,
+  ValidationRequest,
+} from './types';
 import { sanitizeSessionId, sanitizeError, setLogLevel, shouldSanitize } from './utils/SecurityUtils';
+import { randomString } from './utils/random';
 
 export class LaravelSessionClient {
+  private static drivers = new Map<string, StoreDriverFactory>();
+
   private decoder: SessionDecoder;
   private store: StoreInterface;
   private validator: SessionValidator;
+  private cache?: ValidationCache;
   private config: LaravelSessionConfig;
   private debug: boolean;
 
@@ -21,42 +44,125 @@ export class LaravelSessionClient {
     setLogLevel(config.logLevel || 'secure');
 
     // Initialize decoder with optional custom permissions key and debug flag
-    this.decoder = new SessionDecoder(config.appKey, config.permissionsKey, this.debug);
+    const decoderOptions: DecryptionOptions = {
+      cipher: config.cipher,
+      previousKeys: LaravelSessionClient.parsePreviousKeys(config.previousKeys),
+      encrypt: config.session.encrypt,
+    };
+    this.decoder = new SessionDecoder(config.appKey, config.permissionsKey, this.debug, decoderOptions);
+
+    // Initialize store: a provided instance, a registered driver or a built-in driver
+    this.store =
+      config.store ||
+      LaravelSessionClient.createStore(config, {
+        decoderOptions,
+        lifetime: this.getSessionLifetime(),
+        debug: this.debug,
+      });
+
+    // Initialize validator
+    this.validator = new SessionValidator(this.decoder, this.store, config);
+
+    // Initialize the optional validation result cache
+    if (config.cache) {
+      this.cache = config.cache.instance || LaravelSessionClient.createCache(config);
+    }
+  }
+
+  /**
+   * Register a session driver so `session.driver: name` uses a custom StoreInterface
+   * Registered drivers take precedence over the built-in ones with the same name
+   */
+  static registerDriver(name: string, factory: StoreDriverFactory): void {
+    if (!name) {
+      throw new Error('Session driver name is required');
+    }
+    LaravelSessionClient.drivers.set(name, factory);
+  }
+
+  private static createStore(
+    config: LaravelSessionConfig,
+    options: StoreDriverOptions
+  ): StoreInterface {
+    const driver = config.session.driver;
+    const factory = LaravelSessionClient.drivers.get(driver);
+    if (factory) {
+      return factory(config, options);
+    }
 
-    // Initialize store based on driver
-    if (config.session.driver === 'database') {
+    if (driver === 'database') {
       if (!config.database) {
         throw new Error('Database configuration is required for database session driver');
       }
-      this.store = new DatabaseStore(
-        config.database, 
-        config.session.table || 'sessions',
-        config.appKey,
-        config.permissionsKey,
-        this.debug
-      );
-    } else if (config.session.driver === 'redis') {
+      return new DatabaseStore(config.database, config.session.table || 'sessions', options.debug);
+    }
+
+    if (driver === 'redis') {
       if (!config.redis) {
         throw new Error('Redis configuration is required for redis session driver');
       }
       if (!config.database) {
         throw new Error('Database configuration is required for redis session driver (needed for user/role queries)');
       }
-      this.store = new RedisStore(
+      return new RedisStore(
         config.redis,
         config.database,
         config.session.prefix || 'laravel_session:',
         config.session.table || 'sessions',
-        config.appKey,
-        config.permissionsKey,
-        this.debug
+        options.debug,
+        options.lifetime
       );
-    } else {
-      throw new Error(`Unsupported session driver: ${config.session.driver}. Supported drivers: 'database', 'redis'`);
     }
 
-    // Initialize validator
-    this.validator = new SessionValidator(this.decoder, this.store, config);
+    if (driver === 'file') {
+      if (!config.session.files) {
+        throw new Error('Session files directory (session.files) is required for file session driver');
+      }
+      if (!config.database) {
+        throw new Error('Database configuration is required for file session driver (needed for user/role queries)');
+      }
+      return new FileStore(
+        config.session.files,
+        config.database,
+        config.session.table || 'sessions',
+        options.debug
+      );
+    }
+
+    const supported = ['database', 'redis', 'file', ...LaravelSessionClient.drivers.keys()];
+    throw new Error(
+      `Unsupported session driver: ${driver}. Supported drivers: ${supported.map(name => `'${name}'`).join(', ')}`
+    );
+  }
+
+  /**
+   * Build the validation result cache for the configured driver (memory by default)
+   */
+  private static createCache(config: LaravelSessionConfig): ValidationCache {
+    const cacheConfig = config.cache || {};
+    const driver = cacheConfig.driver || 'memory';
+
+    if (driver === 'memory') {
+      return new MemoryValidationCache(cacheConfig.maxEntries);
+    }
+
+    if (driver === 'redis') {
+      const redisConfig = cacheConfig.redis || config.redis;
+      if (!redisConfig) {
+        throw new Error('Redis configuration is required for redis validation cache');
+      }
+      return new RedisValidationCache(redisConfig, cacheConfig.prefix, cacheConfig.ttl);
+    }
+
+    throw new Error(`Unsupported validation cache driver: ${driver}. Supported drivers: 'memory', 'redis'`);
+  }
+
+  /**
+   * Normalize APP_PREVIOUS_KEYS (array or comma-separated string)
+   */
+  private static parsePreviousKeys(previousKeys?: string | string[]): string[] {
+    const keys = Array.isArray(previousKeys) ? previousKeys : (previousKeys || '').split(',');
+    return keys.map(key => key.trim()).filter(key => key.length > 0);
   }
 
   private log(...args: any[]): void {
@@ -73,52 +179,549 @@ export class LaravelSessionClient {
 
   /**
    * Validate a Laravel session
+   * With `rememberCookie`, falls back to the remember-me cookie when the session isn't
+   * authenticated (missing, expired or logged out)
    */
-  async validateSession(sessionId: string): Promise<SessionValidationResult> {
-    this.log('🔐 Session cookie received, length:', sessionId.length);
+  async validateSession(
+    sessionId: string,
+    options: ValidateSessionOptions = {}
+  ): Promise<SessionValidationResult> {
+    const result = sessionId
+      ? await this.validateSessionCookie(sessionId, options)
+      : { valid: false, error: 'No session ID provided' };
 
-    // Decrypt session ID if appKey is configured (for encrypted cookies)
-    let decryptedSessionId = sessionId;
+    // Results with a reason failed a policy check, which a remember cookie must not bypass
+    if (result.valid || result.reason || !options.rememberCookie) {
+      return result;
+    }
 
-    if (this.config.appKey) {
-      try {
-        this.log('🔑 Attempting to decrypt cookie with APP_KEY');
-        const decrypted = this.decoder.decrypt(sessionId);
-        if (decrypted) {
-          this.log('✅ Successfully decrypted cookie');
-          if (!shouldSanitize()) {
-            this.log('🔓 Decrypted value:', decrypted);
-            this.log('🔓 Decrypted value length:', decrypted.length);
-          }
-
-          decryptedSessionId = decrypted;
-
-          // If the decrypted value contains a pipe (|), it's in "hash|sessionId" format
-          // Extract the second part which is the actual session ID
-          if (decryptedSessionId.includes('|')) {
-            const parts = decryptedSessionId.split('|');
-            this.log('🔀 Detected pipe separator in decrypted value');
-            if (shouldSanitize()) {
-              this.log('🔀 Using second part as session ID');
-            } else {
-              this.log('🔀 Parts:', parts);
-              this.log('🔀 Using second part as session ID:', parts[1]);
-            }
-            decryptedSessionId = parts[1];
-          }
+    this.log('🍪 Session not authenticated, trying remember cookie');
+    const rememberResult = await this.validateRememberCookie(options.rememberCookie, options);
+    return rememberResult.valid ? rememberResult : result;
+  }
+
+  private async validateSessionCookie(
+    sessionId: string,
+    request: ValidationRequest
+  ): Promise<SessionValidationResult> {
+    const { sessionId: decryptedSessionId, keyIndex } = this.decryptSessionCookie(sessionId);
+
+    this.log('🎯 Validating session:', sanitizeSessionId(decryptedSessionId));
+
+    const result = await this.validateCached(decryptedSessionId, request);
+    if (keyIndex !== undefined) {
+      result.keyIndex = keyIndex;
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate many sessions at once, e.g. to re-validate connected WebSocket clients
+   * Sessions and users are read in batches (one query or MGET instead of several per session)
+   * @param sessionIds - Session cookie values (may be encrypted) or session IDs
+   * @returns Results keyed by the given values
+   */
+  async validateSessions(
+    sessionIds: string[],
+    request: ValidationRequest = {}
+  ): Promise<Map<string, SessionValidationResult>> {
+    const results = new Map<string, SessionValidationResult>();
+    const cookies = new Map<string, { sessionId: string; keyIndex?: number }>();
+
+    for (const value of new Set(sessionIds)) {
+      if (value) {
+        cookies.set(value, this.decryptSessionCookie(value));
+      } else {
+        results.set(value, { valid: false, error: 'No session ID provided' });
+      }
+    }
+
+    // Reuse cached results and validate the rest in one batch
+    const requestKey = this.getRequestKey(request);
+    const sessionIdSet = new Set(Array.from(cookies.values(), cookie => cookie.sessionId));
+    const sessionResults = await this.getCachedMany(Array.from(sessionIdSet), requestKey);
+
+    const pending = Array.from(sessionIdSet).filter(sessionId => !sessionResults.has(sessionId));
+    this.log('🎯 Validating', pending.length, 'sessions,', sessionResults.size, 'cached');
+
+    const validated = await this.validator.validateMany(pending, request);
+    // Concurrent writes share round trips (node-redis pipelines commands sent in the same tick)
+    await Promise.all(
+      Array.from(validated, ([sessionId, result]) => this.putCached(sessionId, result, requestKey))
+    );
+    for (const [sessionId, result] of validated) {
+      sessionResults.set(sessionId, result);
+    }
+
+    for (const [value, { sessionId, keyIndex }] of cookies) {
+      const result: SessionValidationResult = {
+        ...(sessionResults.get(sessionId) || { valid: false, error: 'Session not found' }),
+      };
+      if (keyIndex !== undefined) {
+        result.keyIndex = keyIndex;
+      }
+      results.set(value, result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Decrypt a session cookie value if appKey is configured (for encrypted cookies)
+   * Values that don't decrypt are used as the session ID as-is
+   */
+  private decryptSessionCookie(cookieValue: string): { sessionId: string; keyIndex?: number } {
+    this.log('🔐 Session cookie received, length:', cookieValue.length);
+
+    if (!this.config.appKey) {
+      this.log('⚠️  No APP_KEY configured, using cookie value as-is');
+      return { sessionId: cookieValue };
+    }
+
+    try {
+      this.log('🔑 Attempting to decrypt cookie with APP_KEY');
+      // Strips the "hash|sessionId" cookie value prefix used by Laravel >= 9
+      const { value: decrypted, keyIndex } = this.decoder.decryptCookieWithKeyInfo(
+        this.getSessionCookieName(),
+        cookieValue
+      );
+      if (decrypted) {
+        this.log('✅ Successfully decrypted cookie');
+        if (!shouldSanitize()) {
+          this.log('🔓 Decrypted value:', decrypted);
+          this.log('🔓 Decrypted value length:', decrypted.length);
+        }
+
+        if (keyIndex > 0) {
+          this.log('🔁 Cookie was encrypted with previous key #' + keyIndex);
+        }
+
+        return { sessionId: decrypted, keyIndex };
+      }
+    } catch (error: any) {
+      // If decryption fails, try using the sessionId as-is (might not be encrypted)
+      this.logError('❌ Session ID decryption failed:', sanitizeError(error));
+      this.log('⚠️  Using original cookie value as session ID');
+    }
+
+    return { sessionId: cookieValue };
+  }
+
+  /**
+   * Validate a session ID through the validation cache, when one is configured
+   * Cached results are reused only for the IP address and user agent they were validated for
+   */
+  private async validateCached(
+    sessionId: string,
+    request: ValidationRequest
+  ): Promise<SessionValidationResult> {
+    const requestKey = this.getRequestKey(request);
+    const cached = await this.getCached(sessionId, requestKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.validator.validate(sessionId, request);
+    await this.putCached(sessionId, result, requestKey);
+
+    return { ...result };
+  }
+
+  private getRequestKey(request: ValidationRequest): string {
+    return `${request.ipAddress || ''}|${request.userAgent || ''}`;
+  }
+
+  private async getCached(
+    sessionId: string,
+    requestKey: string
+  ): Promise<SessionValidationResult | null> {
+    if (!this.cache) {
+      return null;
+    }
+
+    try {
+      const cached = await this.cache.get(sessionId);
+      if (cached && cached.request === requestKey) {
+        this.log('⚡ Using cached validation result');
+        return { ...cached.result };
+      }
+    } catch (error: any) {
+      // A failing cache must not take authentication down with it
+      this.logError('❌ Validation cache read failed:', sanitizeError(error));
+    }
+
+    return null;
+  }
+
+  /**
+   * Cached results of many sessions for a request, with one cache read where the cache supports it
+   */
+  private async getCachedMany(
+    sessionIds: string[],
+    requestKey: string
+  ): Promise<Map<string, SessionValidationResult>> {
+    const results = new Map<string, SessionValidationResult>();
+    const cache = this.cache;
+    if (!cache || sessionIds.length === 0) {
+      return results;
+    }
+
+    try {
+      const entries = cache.getMany
+        ? await cache.getMany(sessionIds)
+        : new Map(
+            await Promise.all(
+              sessionIds.map(async sessionId => [sessionId, await cache.get(sessionId)] as const)
+            )
+          );
+
+      for (const [sessionId, cached] of entries) {
+        if (cached && cached.request === requestKey) {
+          results.set(sessionId, { ...cached.result });
         }
-      } catch (error: any) {
-        // If decryption fails, try using the sessionId as-is (might not be encrypted)
-        this.logError('❌ Session ID decryption failed:', sanitizeError(error));
-        this.log('⚠️  Using original cookie value as session ID');
       }
+      this.log('⚡ Using', results.size, 'cached validation results');
+    } catch (error: any) {
+      // A failing cache must not take authentication down with it
+      this.logError('❌ Validation cache read failed:', sanitizeError(error));
+    }
+
+    return results;
+  }
+
+  private async putCached(
+    sessionId: string,
+    result: SessionValidationResult,
+    requestKey: string
+  ): Promise<void> {
+    const ttl = this.cache ? this.getCacheTtl(result) : 0;
+    if (!this.cache || ttl <= 0) {
+      return;
+    }
+
+    try {
+      await this.cache.set(sessionId, { result, request: requestKey }, ttl);
+    } catch (error: any) {
+      this.logError('❌ Validation cache write failed:', sanitizeError(error));
+    }
+  }
+
+  /**
+   * Seconds to cache a validation result, 0 to skip caching it
+   * Rule and password failures change as soon as the user acts (e.g. passes 2FA), so
+   * only missing, expired and guest sessions are cached as invalid
+   */
+  private getCacheTtl(result: SessionValidationResult): number {
+    const cacheConfig = this.config.cache || {};
+
+    if (!result.valid) {
+      return result.reason ? 0 : cacheConfig.negativeTtl ?? 10;
+    }
+
+    const ttl = cacheConfig.ttl ?? 60;
+    if (result.expiresAt === undefined) {
+      return ttl;
+    }
+    return Math.max(Math.min(ttl, result.expiresAt - Math.floor(Date.now() / 1000)), 0);
+  }
+
+  /**
+   * Drop a session's cached validation result (e.g. after changing it outside this client)
+   */
+  async invalidate(sessionId: string): Promise<void> {
+    if (this.cache) {
+      await this.cache.delete(sessionId);
+    }
+  }
+
+  /**
+   * Drop the cached validation results of all sessions of a user (e.g. after a role change)
+   */
+  async invalidateUser(userId: number): Promise<void> {
+    if (this.cache) {
+      await this.cache.deleteUser(userId);
+    }
+  }
+
+  /**
+   * Create a logged-in session for a user (like Auth::login in Laravel)
+   * Returns the encrypted cookie value to send as the session cookie
+   */
+  async createSession(userId: number, options: CreateSessionOptions = {}): Promise<CreatedSession> {
+    if (!this.config.appKey) {
+      throw new Error('APP_KEY is required to create sessions');
+    }
+
+    const sessionId = randomString(40);
+    const csrfToken = randomString(40);
+    const sessionData: SessionData = {
+      _token: csrfToken,
+      _previous: { url: options.previousUrl || '/' },
+      _flash: { old: [], new: [] },
+      [this.decoder.getAuthKey(options.guard)]: userId,
+      ...options.data,
+    };
+
+    this.log('🆕 Creating session:', sanitizeSessionId(sessionId));
+
+    await this.store.writeSession(
+      {
+        id: sessionId,
+        user_id: userId,
+        ip_address: options.ipAddress || null,
+        user_agent: options.userAgent || null,
+        payload: this.decoder.encode(sessionData),
+        last_activity: Math.floor(Date.now() / 1000),
+      },
+      this.getSessionLifetime()
+    );
+
+    const cookieValue = this.decoder.encryptCookie(this.getSessionCookieName(), sessionId);
+
+    this.log('✅ Session created');
+
+    return { sessionId, cookieValue, csrfToken, sessionData };
+  }
+
+  /**
+   * Authenticate with a remember-me (recaller) cookie: `id|remember_token|password_hash`
+   * The token is checked against the user's remember_token column
+   */
+  async validateRememberCookie(
+    cookieValue: string,
+    options: RememberOptions = {}
+  ): Promise<SessionValidationResult> {
+    const guard = this.getGuard(options.guard);
+
+    let recaller: string | null = null;
+    try {
+      recaller = this.decoder.decryptCookie(this.getRememberCookieName(guard.name), cookieValue);
+    } catch (error: any) {
+      this.logError('❌ Remember cookie decryption failed:', sanitizeError(error));
+    }
+
+    // Laravel's Recaller requires an ID and a token (the password hash is optional)
+    const [id, token, recallerPasswordHash] = (recaller || '').split('|');
+    if (!id || !token) {
+      return { valid: false, error: 'Invalid remember cookie', reason: 'remember_invalid' };
+    }
+    // Numeric IDs become numbers like the session's auth key; string keys (UUIDs) stay strings
+    const userId = (/^\d+$/.test(id) ? Number(id) : id) as number;
+
+    const user = await this.store.getUserByRememberToken(userId, token, guard.provider);
+    if (!user) {
+      this.log('❌ Remember token rejected');
+      return {
+        valid: false,
+        error: 'Invalid remember token',
+        reason: 'remember_token_mismatch',
+      };
+    }
+
+    this.log('✅ Remember token accepted, guard:', guard.name);
+
+    // AuthenticateSession requires the recaller's password hash to match the current one
+    if (this.config.validatePasswordHash) {
+      const passwordHash = await this.store.getUserPasswordHash(user, guard.provider);
+      if (
+        !passwordHash ||
+        !recallerPasswordHash ||
+        !this.decoder.verifyPasswordHash(passwordHash, recallerPasswordHash)
+      ) {
+        this.log('❌ Remember cookie password hash check failed');
+        return {
+          valid: false,
+          error: 'Session invalidated. The password was changed.',
+          reason: 'password_changed',
+        };
+      }
+    }
+
+    let result: SessionValidationResult;
+    let newSession: CreatedSession | undefined;
+
+    if (options.createSession) {
+      newSession = await this.createSession(userId, {
+        guard: guard.name,
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent,
+      });
+      result = await this.validator.validate(newSession.sessionId, options);
     } else {
-      this.log('⚠️  No APP_KEY configured, using cookie value as-is');
+      result = await this.validator.validateSessionData(
+        '',
+        { [this.decoder.getAuthKey(guard.name)]: userId },
+        options,
+        null,
+        user
+      );
+      delete result.sessionId;
     }
 
-    this.log('🎯 Validating session:', sanitizeSessionId(decryptedSessionId));
+    if (result.valid) {
+      result.viaRemember = true;
+      if (newSession) {
+        result.newSession = newSession;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Configured guard by name (the first configured guard by default)
+   */
+  private getGuard(name?: string): GuardConfig {
+    const guards = (this.config.guards || ['web']).map(guard =>
+      typeof guard === 'string' ? { name: guard } : guard
+    );
+    return (name ? guards.find(guard => guard.name === name) : guards[0]) || { name: name as string };
+  }
+
+  /**
+   * Destroy a session (logs the user out of Laravel too)
+   */
+  async destroySession(sessionId: string): Promise<void> {
+    this.log('🚪 Destroying session:', sanitizeSessionId(sessionId));
+    await this.store.destroySession(sessionId);
+    await this.invalidate(sessionId);
+  }
+
+  /**
+   * Destroy every session of a user (force logout everywhere)
+   * @returns Number of destroyed sessions
+   */
+  async destroyAllSessionsForUser(userId: number): Promise<number> {
+    this.log('🚪 Destroying all sessions for user');
+
+    const destroyed = await this.store.destroyUserSessions(userId, session => {
+      try {
+        const sessionData = this.decoder.decode(session.payload);
+        return sessionData ? this.decoder.getUserId(sessionData) : null;
+      } catch {
+        // Undecodable sessions can't belong to the user
+        return null;
+      }
+    });
+    await this.invalidateUser(userId);
+
+    return destroyed;
+  }
+
+  /**
+   * Get decoded session data
+   */
+  async getSessionData(sessionId: string): Promise<SessionData | null> {
+    const session = await this.store.getSession(sessionId);
+    return session ? this.decoder.decode(session.payload) : null;
+  }
+
+  /**
+   * Put a value (or an object of key/value pairs) into the session
+   */
+  async put(sessionId: string, key: string | SessionData, value?: any): Promise<SessionData> {
+    return this.updateSession(sessionId, sessionData => {
+      Object.assign(sessionData, typeof key === 'string' ? { [key]: value } : key);
+    });
+  }
+
+  /**
+   * Remove one or more keys from the session
+   */
+  async forget(sessionId: string, keys: string | string[]): Promise<SessionData> {
+    return this.updateSession(sessionId, sessionData => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        delete sessionData[key];
+      }
+    });
+  }
+
+  /**
+   * Flash a value for the next Laravel request (mirrors Session::flash)
+   */
+  async flash(sessionId: string, key: string, value: any = true): Promise<SessionData> {
+    return this.updateSession(sessionId, sessionData => {
+      const flash = sessionData._flash || {};
+      const toList = (keys: any): string[] =>
+        Array.isArray(keys) ? keys : keys && typeof keys === 'object' ? Object.values(keys) : [];
+
+      sessionData[key] = value;
+      sessionData._flash = {
+        old: toList(flash.old).filter(k => k !== key),
+        new: [...toList(flash.new).filter(k => k !== key), key],
+      };
+    });
+  }
+
+  /**
+   * Replace the whole session data and write it back to the store
+   */
+  async save(sessionId: string, sessionData: SessionData): Promise<void> {
+    const session = await this.getSessionOrFail(sessionId);
+    await this.writeSessionData(session, sessionData);
+  }
 
-    return this.validator.validate(decryptedSessionId);
+  /**
+   * Refresh the session's last activity so Laravel doesn't expire it
+   */
+  async touch(sessionId: string): Promise<void> {
+    this.log('👆 Touching session:', sanitizeSessionId(sessionId));
+    await this.store.touchSession(sessionId, this.getSessionLifetime());
+    await this.invalidate(sessionId);
+  }
+
+  private async updateSession(
+    sessionId: string,
+    callback: (sessionData: SessionData) => void
+  ): Promise<SessionData> {
+    const session = await this.getSessionOrFail(sessionId);
+    const sessionData = this.decoder.decode(session.payload) || {};
+
+    callback(sessionData);
+    await this.writeSessionData(session, sessionData);
+
+    return sessionData;
+  }
+
+  private async getSessionOrFail(sessionId: string): Promise<SessionRecord> {
+    const session = await this.store.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    return session;
+  }
+
+  private async writeSessionData(session: SessionRecord, sessionData: SessionData): Promise<void> {
+    this.log('💾 Saving session:', sanitizeSessionId(session.id));
+
+    await this.store.writeSession({
+      ...session,
+      payload: this.decoder.encode(sessionData),
+      last_activity: Math.floor(Date.now() / 1000),
+    });
+    await this.invalidate(session.id);
+  }
+
+  /**
+   * Session lifetime in seconds
+   */
+  private getSessionLifetime(): number {
+    return (this.config.session.lifetime || 1000) * 60;
+  }
+
+  /**
+   * Encrypt a value with the APP_KEY (Laravel's Crypt::encrypt)
+   */
+  encrypt(value: any, options?: EncryptionOptions): string {
+    return this.decoder.encrypt(value, options);
+  }
+
+  /**
+   * Encrypt a cookie value so Laravel's EncryptCookies middleware can read it
+   */
+  encryptCookie(cookieName: string, value: string): string {
+    return this.decoder.encryptCookie(cookieName, value);
   }
 
   /**
@@ -128,10 +731,20 @@ export class LaravelSessionClient {
     return this.config.session.cookieName || 'laravel_session';
   }
 
+  /**
+   * Get the remember-me cookie name for a guard: remember_{guard}_{sha1(SessionGuard)}
+   */
+  getRememberCookieName(guard?: string): string {
+    return this.decoder.getAuthKey(this.getGuard(guard).name).replace(/^login_/, 'remember_');
+  }
+
   /**
    * Close all connections
    */
   async close(): Promise<void> {
     await this.store.close();
+    if (this.cache) {
+      await this.cache.close();
+    }
   }
 }
@@ -0,0 +1,50 @@
+import { MemoryValidationCache } from './MemoryValidationCache';
+import { CachedValidation } from '../types';
+
+const entry = (userId: number): CachedValidation => ({
+  result: { valid: true, user: { id: userId, email: 'user@example.com' } },
+  request: '|',
+});
+
+describe('MemoryValidationCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('expires entries after their TTL', async () => {
+    jest.useFakeTimers();
+    const cache = new MemoryValidationCache();
+    await cache.set('a', entry(1), 10);
+
+    jest.advanceTimersByTime(9 * 1000);
+    expect(await cache.get('a')).toEqual(entry(1));
+    jest.advanceTimersByTime(1000);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new MemoryValidationCache(2);
+    await cache.set('a', entry(1), 60);
+    await cache.set('b', entry(2), 60);
+    await cache.get('a');
+
+    await cache.set('c', entry(3), 60);
+
+    expect(await cache.get('a')).not.toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).not.toBeNull();
+  });
+
+  it('deletes every entry of a user', async () => {
+    const cache = new MemoryValidationCache();
+    await cache.set('a', entry(1), 60);
+    await cache.set('b', entry(1), 60);
+    await cache.set('c', entry(2), 60);
+
+    await cache.deleteUser(1);
+
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).not.toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { ValidationCache, resultUserIds } from './ValidationCache';
+import { CachedValidation } from '../types';
+
+interface MemoryEntry {
+  entry: CachedValidation;
+  expiresAt: number;
+}
+
+/**
+ * Per-process LRU cache of validation results
+ * Entries are kept by reference, so results returned from the cache share nested objects.
+ */
+export class MemoryValidationCache implements ValidationCache {
+  private entries = new Map<string, MemoryEntry>();
+  private userSessions = new Map<string, Set<string>>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(sessionId: string): Promise<CachedValidation | null> {
+    const cached = this.entries.get(sessionId);
+    if (!cached) {
+      return null;
+    }
+
+    if (cached.expiresAt <= Date.now()) {
+      this.remove(sessionId);
+      return null;
+    }
+
+    // Move to the end of the map, which keeps entries in least recently used order
+    this.entries.delete(sessionId);
+    this.entries.set(sessionId, cached);
+    return cached.entry;
+  }
+
+  async set(sessionId: string, entry: CachedValidation, ttl: number): Promise<void> {
+    this.remove(sessionId);
+    this.entries.set(sessionId, { entry, expiresAt: Date.now() + ttl * 1000 });
+
+    for (const userId of resultUserIds(entry.result)) {
+      const sessions = this.userSessions.get(userId) || new Set<string>();
+      sessions.add(sessionId);
+      this.userSessions.set(userId, sessions);
+    }
+
+    while (this.entries.size > this.maxEntries) {
+      this.remove(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.remove(sessionId);
+  }
+
+  async deleteUser(userId: number): Promise<void> {
+    for (const sessionId of Array.from(this.userSessions.get(String(userId)) || [])) {
+      this.remove(sessionId);
+    }
+    this.userSessions.delete(String(userId));
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+    this.userSessions.clear();
+  }
+
+  private remove(sessionId: string): void {
+    const cached = this.entries.get(sessionId);
+    if (!cached) {
+      return;
+    }
+
+    this.entries.delete(sessionId);
+    for (const userId of resultUserIds(cached.entry.result)) {
+      const sessions = this.userSessions.get(userId);
+      sessions?.delete(sessionId);
+      if (sessions && sessions.size === 0) {
+        this.userSessions.delete(userId);
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { ValidationCache, resultUserIds } from './ValidationCache';
+import { RedisStore, RedisConfig, RedisConnection } from '../stores/RedisStore';
+import { CachedValidation } from '../types';
+import { sanitizeError } from '../utils/SecurityUtils';
+
+/**
+ * Validation results cached in Redis, shared by every process using the same prefix
+ * Each user has a set of their cached session IDs so deleteUser doesn't scan keys.
+ */
+export class RedisValidationCache implements ValidationCache {
+  private client: RedisConnection;
+  private prefix: string;
+  private ttl: number;
+  private connected: boolean = false;
+
+  /**
+   * @param ttl - Longest entry TTL in seconds, used as the lifetime of the user sets
+   */
+  constructor(redisConfig: RedisConfig, prefix = 'laravel_session_sdk:validation:', ttl = 60) {
+    this.prefix = `${redisConfig.prefix || ''}${prefix}`;
+    this.ttl = ttl;
+    this.client = RedisStore.createConnection(redisConfig);
+  }
+
+  private async ensureConnected(): Promise<void> {
+    if (!this.connected) {
+      await this.client.connect();
+      this.connected = true;
+    }
+  }
+
+  private userKey(userId: number | string): string {
+    return `${this.prefix}user:${userId}`;
+  }
+
+  async get(sessionId: string): Promise<CachedValidation | null> {
+    try {
+      await this.ensureConnected();
+      const value = await this.client.get(`${this.prefix}${sessionId}`);
+      return value ? JSON.parse(value) : null;
+    } catch (error: any) {
+      throw new Error(`Failed to get cached validation from Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async getMany(sessionIds: string[]): Promise<Map<string, CachedValidation>> {
+    try {
+      await this.ensureConnected();
+      const keys = sessionIds.map(sessionId => `${this.prefix}${sessionId}`);
+      // MGET fails with CROSSSLOT on clusters, so cluster reads are one GET per key
+      const values =
+        'masters' in this.client
+          ? await Promise.all(keys.map(key => this.client.get(key)))
+          : await this.client.mGet(keys);
+
+      const entries = new Map<string, CachedValidation>();
+      sessionIds.forEach((sessionId, index) => {
+        const value = values[index];
+        if (value) {
+          entries.set(sessionId, JSON.parse(value));
+        }
+      });
+      return entries;
+    } catch (error: any) {
+      throw new Error(`Failed to get cached validations from Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async set(sessionId: string, entry: CachedValidation, ttl: number): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.client.set(`${this.prefix}${sessionId}`, JSON.stringify(entry), {
+        PX: Math.ceil(ttl * 1000),
+      });
+
+      // Separate commands rather than MULTI: the keys can live on different cluster slots
+      for (const userId of resultUserIds(entry.result)) {
+        await this.client.sAdd(this.userKey(userId), sessionId);
+        await this.client.expire(this.userKey(userId), this.ttl);
+      }
+    } catch (error: any) {
+      throw new Error(`Failed to cache validation in Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.client.del(`${this.prefix}${sessionId}`);
+    } catch (error: any) {
+      throw new Error(`Failed to delete cached validation from Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async deleteUser(userId: number): Promise<void> {
+    try {
+      await this.ensureConnected();
+      const sessionIds = await this.client.sMembers(this.userKey(userId));
+      for (const sessionId of sessionIds) {
+        await this.client.del(`${this.prefix}${sessionId}`);
+      }
+      await this.client.del(this.userKey(userId));
+    } catch (error: any) {
+      throw new Error(`Failed to delete cached validations from Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.connected) {
+      await RedisStore.closeConnection(this.client);
+      this.connected = false;
+    }
+  }
+}
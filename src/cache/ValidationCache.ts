@@ -0,0 +1,47 @@
+import { CachedValidation, SessionValidationResult } from '../types';
+
+export interface ValidationCache {
+  /**
+   * Get a cached validation for a session ID
+   */
+  get(sessionId: string): Promise<CachedValidation | null>;
+
+  /**
+   * Get the cached validations of many session IDs at once, keyed by session ID
+   * Optional: get() is called for each ID when missing
+   */
+  getMany?(sessionIds: string[]): Promise<Map<string, CachedValidation>>;
+
+  /**
+   * Cache a validation for a session ID
+   * @param ttl - Seconds to keep the entry
+   */
+  set(sessionId: string, entry: CachedValidation, ttl: number): Promise<void>;
+
+  /**
+   * Remove a session's cached validation
+   */
+  delete(sessionId: string): Promise<void>;
+
+  /**
+   * Remove the cached validations of every session a user is logged in to
+   */
+  deleteUser(userId: number): Promise<void>;
+
+  /**
+   * Close connections
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * IDs of the users a validation result belongs to (one per logged-in guard)
+ * Strings, so numeric IDs and string keys (UUIDs) index the same way
+ */
+export function resultUserIds(result: SessionValidationResult): string[] {
+  const users = result.guards ? Object.values(result.guards) : [];
+  if (result.user) {
+    users.push(result.user);
+  }
+  return Array.from(new Set(users.map(user => String(user.id))));
+}
@@ -0,0 +1,76 @@
+import * as zlib from 'zlib';
+import { MemcachedValueCodec } from './MemcachedValueCodec';
+
+// Serialized session string, as Laravel's session handler passes it to the cache
+const SESSION = 'a:2:{s:6:"_token";s:5:"token";s:3:"url";s:9:"/café/ü";}';
+
+const COMPRESSED_ZLIB = (1 << 4) | (1 << 5);
+const COMPRESSED_FASTLZ = (1 << 4) | (1 << 6);
+
+/**
+ * Prefix a compressed payload with the uncompressed length, as php-memcached does
+ */
+function compressed(payload: Buffer, length: number): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(length);
+  return Buffer.concat([header, payload]);
+}
+
+describe('MemcachedValueCodec', () => {
+  it('round-trips session strings as plain strings', () => {
+    const value = MemcachedValueCodec.wrap(SESSION);
+
+    expect(value.toString('utf-8')).toBe(SESSION);
+    expect(MemcachedValueCodec.unwrap(value, 0)).toBe(SESSION);
+  });
+
+  it('unserializes values stored with the serialized type', () => {
+    const value = Buffer.from(`s:${Buffer.byteLength(SESSION)}:"${SESSION}";`);
+
+    expect(MemcachedValueCodec.unwrap(value, 4)).toBe(SESSION);
+  });
+
+  it('decompresses zlib values', () => {
+    const value = compressed(zlib.deflateSync(SESSION), Buffer.byteLength(SESSION));
+
+    expect(MemcachedValueCodec.unwrap(value, COMPRESSED_ZLIB)).toBe(SESSION);
+  });
+
+  it('decompresses fastlz level 1 values', () => {
+    // Literal run "abcabc", then a back reference repeating "abc"
+    const payload = Buffer.concat([
+      Buffer.from([5]),
+      Buffer.from('abcabc'),
+      Buffer.from([0x20, 2]),
+    ]);
+
+    expect(MemcachedValueCodec.unwrap(compressed(payload, 9), COMPRESSED_FASTLZ)).toBe('abcabcabc');
+  });
+
+  it('decompresses fastlz level 2 values with long matches', () => {
+    // Level 2 literal run "ab", then a 13 byte back reference with an extra length byte
+    const payload = Buffer.concat([
+      Buffer.from([0x21]),
+      Buffer.from('ab'),
+      Buffer.from([0xe0, 4, 1]),
+    ]);
+
+    expect(MemcachedValueCodec.unwrap(compressed(payload, 15), COMPRESSED_FASTLZ)).toBe(
+      'abababababababa'
+    );
+  });
+
+  it('rejects values that do not decompress to the stored length', () => {
+    const value = compressed(zlib.deflateSync(SESSION), Buffer.byteLength(SESSION) + 1);
+
+    expect(() => MemcachedValueCodec.unwrap(value, COMPRESSED_ZLIB)).toThrow(
+      'Failed to decompress memcached value'
+    );
+  });
+
+  it('rejects unsupported value types', () => {
+    expect(() => MemcachedValueCodec.unwrap(Buffer.from('1'), 1)).toThrow(
+      'Unsupported memcached value type: 1'
+    );
+  });
+});
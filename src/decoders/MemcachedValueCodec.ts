@@ -0,0 +1,86 @@
+import * as zlib from 'zlib';
+import { PhpSerializer } from './PhpSerializer';
+import { fastlzDecompress, zstdDecompress } from './compression';
+
+/**
+ * php-memcached value flags: the low 4 bits hold the value type, the next 4 bits the
+ * compression flags (see php_memcached_private.h)
+ */
+const TYPE_MASK = 0x0f;
+const TYPE_STRING = 0;
+const TYPE_SERIALIZED = 4;
+
+const COMPRESSED = 1 << 4;
+const COMPRESSION_ZLIB = 1 << 5;
+const COMPRESSION_FASTLZ = 1 << 6;
+const COMPRESSION_ZSTD = 1 << 7;
+
+/**
+ * Converts between Memcached values and session strings
+ *
+ * Laravel's memcached cache store hands the session string to php-memcached unchanged, which
+ * stores it as a plain string, compressed once it exceeds memcached.compression_threshold.
+ */
+export class MemcachedValueCodec {
+  /**
+   * Unwrap a Memcached value into the serialized session string
+   */
+  static unwrap(value: Buffer, flags: number): string {
+    const data = flags & COMPRESSED ? MemcachedValueCodec.decompress(value, flags) : value;
+
+    switch (flags & TYPE_MASK) {
+      case TYPE_STRING:
+        return data.toString('utf-8');
+      case TYPE_SERIALIZED: {
+        // Written by clients that serialize strings themselves
+        const session = PhpSerializer.unserialize(data.toString('utf-8'));
+        if (typeof session !== 'string') {
+          throw new Error('Memcached session value is not a serialized string');
+        }
+        return session;
+      }
+      default:
+        throw new Error(`Unsupported memcached value type: ${flags & TYPE_MASK}`);
+    }
+  }
+
+  /**
+   * Wrap a serialized session string the way php-memcached stores strings (flags 0, uncompressed)
+   */
+  static wrap(session: string): Buffer {
+    return Buffer.from(session, 'utf-8');
+  }
+
+  /**
+   * Compressed values are prefixed with the uncompressed length (uint32, little-endian)
+   */
+  private static decompress(value: Buffer, flags: number): Buffer {
+    if (value.length < 4) {
+      throw new Error('Invalid compressed memcached value');
+    }
+
+    const length = value.readUInt32LE(0);
+    const payload = value.subarray(4);
+    let decompressed: Buffer | null;
+
+    if (flags & COMPRESSION_FASTLZ) {
+      decompressed = fastlzDecompress(payload);
+    } else if (flags & COMPRESSION_ZSTD) {
+      decompressed = zstdDecompress(payload);
+    } else if (flags & COMPRESSION_ZLIB) {
+      try {
+        decompressed = zlib.inflateSync(payload);
+      } catch {
+        decompressed = null;
+      }
+    } else {
+      throw new Error('Unknown memcached compression type');
+    }
+
+    if (!decompressed || decompressed.length !== length) {
+      throw new Error('Failed to decompress memcached value');
+    }
+
+    return decompressed;
+  }
+}
@@ -0,0 +1,171 @@
+import { PhpSerializer } from './PhpSerializer';
+
+// session()->flash('errors', $validator->errors()) as Laravel serializes it
+const ERRORS =
+  'O:31:"Illuminate\\Support\\ViewErrorBag":1:{s:7:"\0*\0bags";a:1:{s:7:"default";' +
+  'O:29:"Illuminate\\Support\\MessageBag":2:{s:11:"\0*\0messages";a:1:{s:5:"email";' +
+  'a:1:{i:0;s:23:"The email is not valid.";}}s:9:"\0*\0format";s:8:":message";}}}';
+
+// A Laravel session payload as PHP serializes it
+const SESSION =
+  'a:4:{s:6:"_token";s:40:"6aQ0GNZ6bIB4Vs6mlKDOz2JPz8rGZfnhyOiCPALv";' +
+  's:9:"_previous";a:1:{s:3:"url";s:21:"http://localhost/home";}' +
+  's:6:"_flash";a:2:{s:3:"old";a:0:{}s:3:"new";a:0:{}}' +
+  's:50:"login_web_59ba36addc2b2f9401580f014c7f58ea4e30989d";i:42;}';
+
+describe('PhpSerializer', () => {
+  it('round-trips scalars, lists and arrays', () => {
+    const data = { name: 'Zoë', count: 3, ratio: 1.5, active: true, none: null, list: [1, 'two'] };
+
+    expect(PhpSerializer.unserialize(PhpSerializer.serialize(data))).toEqual(data);
+  });
+
+  it('uses byte lengths for multibyte strings', () => {
+    expect(PhpSerializer.serialize('é')).toBe('s:2:"é";');
+    expect(PhpSerializer.unserialize('s:2:"é";')).toBe('é');
+  });
+
+  it('writes integer-like keys as integer keys, like PHP arrays', () => {
+    expect(PhpSerializer.serialize({ 5: 'a', key: 'b' })).toBe(
+      'a:2:{i:5;s:1:"a";s:3:"key";s:1:"b";}'
+    );
+  });
+
+  it('exposes protected properties by name', () => {
+    const errors = PhpSerializer.unserialize(ERRORS);
+
+    expect(errors.bags.default.messages).toEqual({ email: ['The email is not valid.'] });
+  });
+
+  it('writes objects back with their PHP class and property names', () => {
+    expect(PhpSerializer.serialize(PhpSerializer.unserialize(ERRORS))).toBe(ERRORS);
+  });
+
+  it('keeps the class and property names of modified objects', () => {
+    const errors = PhpSerializer.unserialize(ERRORS);
+    errors.bags.default.messages.name = ['Required.'];
+
+    const serialized = PhpSerializer.serialize({ errors });
+
+    expect(serialized).toContain('O:31:"Illuminate\\Support\\ViewErrorBag":1:{s:7:"\0*\0bags"');
+    expect(serialized).toContain('s:4:"name";a:1:{i:0;s:9:"Required.";}');
+  });
+
+  it('rejects unknown PHP classes', () => {
+    expect(() => PhpSerializer.unserialize('O:9:"App\\Order":0:{}')).toThrow(
+      'Class App\\Order not found in given scope'
+    );
+  });
+
+  it('refuses to write JavaScript class instances without a PHP class', () => {
+    expect(() => PhpSerializer.serialize({ date: new Date() })).toThrow('Cannot serialize Date');
+  });
+
+  describe('round trips', () => {
+    it.each([
+      ['a Laravel session', SESSION],
+      ['scalars', 'a:6:{i:0;N;i:1;b:1;i:2;b:0;i:3;i:-7;i:4;d:0.1;i:5;s:0:"";}'],
+      ['special floats', 'a:3:{i:0;d:INF;i:1;d:-INF;i:2;d:NAN;}'],
+      ['whole floats in arrays', 'a:2:{s:5:"price";d:2;s:3:"qty";i:2;}'],
+      ['whole floats in objects', 'O:8:"stdClass":2:{s:5:"price";d:10;s:3:"qty";i:10;}'],
+      ['non-list arrays', 'a:2:{i:1;s:1:"a";i:3;s:1:"b";}'],
+      ['repeated objects', 'a:2:{i:0;O:8:"stdClass":1:{s:4:"name";s:3:"Ann";}i:1;r:2;}'],
+      ['self-referencing objects', 'O:8:"stdClass":1:{s:4:"self";r:1;}'],
+    ])('writes %s back byte for byte', (_, serialized) => {
+      expect(PhpSerializer.serialize(PhpSerializer.unserialize(serialized))).toBe(serialized);
+    });
+
+    it('writes Serializable (C:) objects back with their payload', () => {
+      PhpSerializer.addClassMapping('App\\Token', class {});
+      const serialized = 'a:1:{s:5:"token";C:9:"App\\Token":5:{hello}}';
+
+      expect(PhpSerializer.serialize(PhpSerializer.unserialize(serialized))).toBe(serialized);
+    });
+  });
+
+  describe('numbers', () => {
+    it('writes integers beyond the safe range as floats', () => {
+      expect(PhpSerializer.serialize(1e25)).toBe('d:1e+25;');
+      expect(PhpSerializer.serialize(2 ** 53)).toBe('d:9007199254740992;');
+      expect(PhpSerializer.serialize(Number.MAX_SAFE_INTEGER)).toBe('i:9007199254740991;');
+    });
+
+    it('reads exponent floats and writes them back as floats', () => {
+      const data = PhpSerializer.unserialize('a:1:{s:1:"n";d:1.0E+25;}');
+
+      expect(data.n).toBe(1e25);
+      expect(PhpSerializer.serialize(data)).toBe('a:1:{s:1:"n";d:1e+25;}');
+    });
+
+    it('keeps a whole float a float after it is modified', () => {
+      const data = PhpSerializer.unserialize('a:1:{s:5:"price";d:2.5;}');
+      data.price = 3;
+
+      expect(PhpSerializer.serialize(data)).toBe('a:1:{s:5:"price";d:3;}');
+    });
+  });
+
+  describe('arrays', () => {
+    it('skips the holes of sparse arrays', () => {
+      const list = [1, 2, 3];
+      delete list[1];
+
+      expect(PhpSerializer.serialize(list)).toBe('a:2:{i:0;i:1;i:2;i:3;}');
+    });
+
+    it('writes Maps as PHP arrays', () => {
+      expect(PhpSerializer.serialize(new Map<any, any>([['a', 1], [2, 'b']]))).toBe(
+        'a:2:{s:1:"a";i:1;i:2;s:1:"b";}'
+      );
+    });
+  });
+
+  describe('references', () => {
+    it('resolves object references (r:) to the same object', () => {
+      const [first, second] = PhpSerializer.unserialize(
+        'a:2:{i:0;O:8:"stdClass":1:{s:4:"name";s:3:"Ann";}i:1;r:2;}'
+      );
+
+      expect(second).toBe(first);
+    });
+
+    it('resolves value references (R:) to the referenced value', () => {
+      expect(PhpSerializer.unserialize('a:3:{s:1:"a";i:5;s:1:"b";R:2;s:1:"c";R:2;}')).toEqual({
+        a: 5,
+        b: 5,
+        c: 5,
+      });
+    });
+
+    it('counts r: but not R: as a value when numbering references', () => {
+      const data = PhpSerializer.unserialize(
+        'a:4:{i:0;O:8:"stdClass":0:{}i:1;R:2;i:2;O:8:"stdClass":0:{}i:3;r:3;}'
+      );
+
+      expect(data[3]).toBe(data[2]);
+      expect(data[3]).not.toBe(data[0]);
+    });
+
+    it('writes shared objects once and references them after', () => {
+      const user = PhpSerializer.unserialize('O:8:"stdClass":1:{s:2:"id";i:1;}');
+
+      expect(PhpSerializer.serialize({ owner: user, editor: user })).toBe(
+        'a:2:{s:5:"owner";O:8:"stdClass":1:{s:2:"id";i:1;}s:6:"editor";r:2;}'
+      );
+    });
+
+    it('copies shared arrays, like PHP', () => {
+      const tags = ['a'];
+
+      expect(PhpSerializer.serialize([tags, tags])).toBe(
+        'a:2:{i:0;a:1:{i:0;s:1:"a";}i:1;a:1:{i:0;s:1:"a";}}'
+      );
+    });
+
+    it('rejects references to missing values', () => {
+      expect(() => PhpSerializer.unserialize('a:1:{i:0;r:5;}')).toThrow(
+        'Unsupported reference to value 5'
+      );
+    });
+  });
+});
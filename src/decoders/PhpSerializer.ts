@@ -1,5 +1,3 @@
-import * as phpSerialize from 'php-serialize';
-
 // Define stdClass for PHP unserialization
 class stdClass {
   [key: string]: any;
@@ -58,14 +56,370 @@ const classMap: { [key: string]: any } = {
   'Illuminate\\Database\\Eloquent\\Model': IlluminateDatabaseEloquentModel,
 };
 
+/**
+ * How a PHP object was serialized, so writing it back keeps its class name and property visibility
+ * `properties` maps JS property names to the serialized names (protected: "\0*\0name",
+ * private: "\0Class\0name"); `payload` holds the data of Serializable (C:) objects
+ */
+interface PhpObjectInfo {
+  className: string;
+  properties: Map<string, string>;
+  payload?: string;
+}
+
+const objectInfo = new WeakMap<object, PhpObjectInfo>();
+
+/**
+ * Keys of arrays and objects whose values were PHP floats, so whole floats (d:2;) are written
+ * back as floats rather than integers
+ */
+const floatKeys = new WeakMap<object, Set<string>>();
+
+/**
+ * Reads PHP's serialize() format from a byte buffer (string lengths are in bytes)
+ * Every value except R: takes a numbered slot, like PHP's var_hash, so r:/R: references resolve
+ */
+class PhpReader {
+  private offset = 0;
+  private values: any[] = [];
+
+  constructor(private data: Buffer) {}
+
+  read(): any {
+    const type = this.peek();
+    this.offset += 2;
+
+    if (type === 'R') {
+      return this.readReference();
+    }
+
+    const slot = this.values.push(undefined) - 1;
+    const value = type === 'r' ? this.readReference() : this.readValue(type, slot);
+    this.values[slot] = value;
+    return value;
+  }
+
+  private peek(): string {
+    return String.fromCharCode(this.data[this.offset]);
+  }
+
+  private readValue(type: string, slot: number): any {
+    switch (type) {
+      case 'N':
+        return null;
+      case 'b':
+        return this.readUntil(';') === '1';
+      case 'i':
+        return parseInt(this.readUntil(';'), 10);
+      case 'd':
+        return this.readFloat(this.readUntil(';'));
+      case 's':
+        return this.readString();
+      case 'a':
+        return this.readArray();
+      case 'O':
+        return this.readObject(slot);
+      case 'C':
+        return this.readSerializable();
+      default:
+        throw new Error(`Unsupported type '${type}' at offset ${this.offset - 2}`);
+    }
+  }
+
+  private readUntil(delimiter: string): string {
+    const end = this.data.indexOf(delimiter, this.offset);
+    if (end === -1) {
+      throw new Error(`Expected '${delimiter}' after offset ${this.offset}`);
+    }
+    const value = this.data.toString('utf-8', this.offset, end);
+    this.offset = end + 1;
+    return value;
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      throw new Error(`Expected '${char}' at offset ${this.offset}`);
+    }
+    this.offset++;
+  }
+
+  private readFloat(value: string): number {
+    if (value === 'INF') {
+      return Infinity;
+    }
+    if (value === '-INF') {
+      return -Infinity;
+    }
+    return value === 'NAN' ? NaN : parseFloat(value);
+  }
+
+  /**
+   * r:n; / R:n; point at the value in slot n (1-based)
+   */
+  private readReference(): any {
+    const index = parseInt(this.readUntil(';'), 10);
+    const value = this.values[index - 1];
+    if (value === undefined) {
+      // Out of range, or an array that is still being read
+      throw new Error(`Unsupported reference to value ${index} at offset ${this.offset}`);
+    }
+    return value;
+  }
+
+  /**
+   * len:"bytes" (the trailing ';' of s: values is consumed by the caller)
+   */
+  private readQuoted(): string {
+    const length = parseInt(this.readUntil(':'), 10);
+    this.expect('"');
+    const value = this.data.toString('utf-8', this.offset, this.offset + length);
+    this.offset += length;
+    this.expect('"');
+    return value;
+  }
+
+  private readString(): string {
+    const value = this.readQuoted();
+    this.expect(';');
+    return value;
+  }
+
+  /**
+   * Array keys and property names don't take reference slots
+   */
+  private readKey(): string | number {
+    const type = this.peek();
+    this.offset += 2;
+
+    if (type === 'i') {
+      return parseInt(this.readUntil(';'), 10);
+    }
+    if (type === 's') {
+      return this.readString();
+    }
+    throw new Error(`Unsupported key type '${type}' at offset ${this.offset - 2}`);
+  }
+
+  private readPairs(): Array<[string | number, any, boolean]> {
+    const count = parseInt(this.readUntil(':'), 10);
+    this.expect('{');
+    const pairs: Array<[string | number, any, boolean]> = [];
+    for (let i = 0; i < count; i++) {
+      const key = this.readKey();
+      const isFloat = this.peek() === 'd';
+      pairs.push([key, this.read(), isFloat]);
+    }
+    this.expect('}');
+    return pairs;
+  }
+
+  private rememberFloats(target: object, names: string[]): void {
+    if (names.length > 0) {
+      floatKeys.set(target, new Set(names));
+    }
+  }
+
+  private readArray(): any {
+    const pairs = this.readPairs();
+    // Lists (keys 0..n-1) become arrays, other PHP arrays plain objects
+    const isList = pairs.every(([key], index) => key === index);
+    const result: any = isList ? [] : {};
+    for (const [key, value] of pairs) {
+      result[key] = value;
+    }
+    this.rememberFloats(
+      result,
+      pairs.filter(([, , isFloat]) => isFloat).map(([key]) => String(key))
+    );
+    return result;
+  }
+
+  private readObject(slot: number): any {
+    const className = this.readQuoted();
+    this.expect(':');
+
+    // Registered before the properties are read so they can reference the object (r:)
+    const object = this.instantiate(className);
+    this.values[slot] = object;
+
+    const pairs = this.readPairs();
+    const properties = new Map<string, string>();
+    const floats: string[] = [];
+
+    for (const [key, value, isFloat] of pairs) {
+      const serializedName = String(key);
+      // Protected ("\0*\0name") and private ("\0Class\0name") properties are exposed by name
+      const name = serializedName.startsWith('\0')
+        ? serializedName.slice(serializedName.indexOf('\0', 1) + 1)
+        : serializedName;
+      object[name] = value;
+      properties.set(name, serializedName);
+      if (isFloat) {
+        floats.push(name);
+      }
+    }
+
+    objectInfo.set(object, { className, properties });
+    this.rememberFloats(object, floats);
+    return object;
+  }
+
+  private readSerializable(): any {
+    const className = this.readQuoted();
+    this.expect(':');
+    const length = parseInt(this.readUntil(':'), 10);
+    this.expect('{');
+    const payload = this.data.toString('utf-8', this.offset, this.offset + length);
+    this.offset += length;
+    this.expect('}');
+
+    const object = this.instantiate(className);
+    if (typeof object.unserialize === 'function') {
+      object.unserialize(payload);
+    }
+    objectInfo.set(object, { className, properties: new Map(), payload });
+    return object;
+  }
+
+  private instantiate(className: string): any {
+    const jsClass = classMap[className];
+    if (!jsClass) {
+      throw new Error(`Class ${className} not found in given scope`);
+    }
+    return new jsClass();
+  }
+}
+
+/**
+ * Writes PHP's serialize() format
+ * Objects written more than once become r: references, as PHP writes them; arrays are copied
+ */
+class PhpWriter {
+  private slots = 0;
+  private objects = new Map<object, number>();
+
+  write(value: any, asFloat = false): string {
+    const slot = ++this.slots;
+
+    if (value === null || value === undefined) {
+      return 'N;';
+    }
+
+    switch (typeof value) {
+      case 'boolean':
+        return `b:${value ? 1 : 0};`;
+      case 'number':
+        return this.writeNumber(value, asFloat);
+      case 'string':
+        return this.writeString(value);
+      case 'object':
+        return this.writeObject(value, slot);
+      default:
+        throw new Error(`Cannot serialize a ${typeof value}`);
+    }
+  }
+
+  private writeNumber(value: number, asFloat: boolean): string {
+    // Larger integers have no exact PHP int and print in exponent form, which i: rejects
+    if (Number.isSafeInteger(value) && !asFloat) {
+      return `i:${value};`;
+    }
+    if (Number.isNaN(value)) {
+      return 'd:NAN;';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? 'd:INF;' : 'd:-INF;';
+    }
+    return `d:${value};`;
+  }
+
+  private writeString(value: string): string {
+    return `s:${Buffer.byteLength(value, 'utf-8')}:"${value}";`;
+  }
+
+  /**
+   * PHP array keys: canonical integer strings are integer keys, like in PHP
+   */
+  private writeKey(key: string | number): string {
+    return typeof key === 'number' || /^(0|-?[1-9][0-9]*)$/.test(key)
+      ? `i:${key};`
+      : this.writeString(key);
+  }
+
+  /**
+   * Entries are [serialized key, value, JS key]; the JS key looks up the remembered floats
+   */
+  private writeEntries(entries: Array<[string, any, string?]>, floats?: Set<string>): string {
+    const body = entries
+      .map(
+        ([key, value, name]) => key + this.write(value, name !== undefined && !!floats?.has(name))
+      )
+      .join('');
+    return `${entries.length}:{${body}}`;
+  }
+
+  private writeObject(value: any, slot: number): string {
+    const info = objectInfo.get(value);
+    const floats = floatKeys.get(value);
+
+    if (!info) {
+      const prototype = Object.getPrototypeOf(value);
+
+      // Object.keys skips the holes of sparse arrays
+      if (prototype === Array.prototype || prototype === Object.prototype || prototype === null) {
+        return `a:${this.writeEntries(
+          Object.keys(value).map((key): [string, any, string] => [
+            this.writeKey(key),
+            value[key],
+            key,
+          ]),
+          floats
+        )}`;
+      }
+
+      if (value instanceof Map) {
+        return `a:${this.writeEntries(Array.from(value, ([key, item]) => [this.writeKey(key), item]))}`;
+      }
+    }
+
+    const reference = this.objects.get(value);
+    if (reference !== undefined) {
+      return `r:${reference};`;
+    }
+    this.objects.set(value, slot);
+
+    if (info?.payload !== undefined) {
+      const className = info.className;
+      return `C:${Buffer.byteLength(className, 'utf-8')}:"${className}":${Buffer.byteLength(info.payload, 'utf-8')}:{${info.payload}}`;
+    }
+
+    // Objects read from a payload keep their class; others need a class mapping
+    const className =
+      info?.className || Object.keys(classMap).find(name => classMap[name] === value.constructor);
+    if (!className) {
+      throw new Error(
+        `Cannot serialize ${value.constructor?.name || 'object'}: it is not a PHP class (see PhpSerializer.addClassMapping)`
+      );
+    }
+
+    const entries = Object.keys(value).map((key): [string, any, string] => [
+      this.writeString(info?.properties.get(key) || key),
+      value[key],
+      key,
+    ]);
+
+    return `O:${Buffer.byteLength(className, 'utf-8')}:"${className}":${this.writeEntries(entries, floats)}`;
+  }
+}
+
 export class PhpSerializer {
   /**
    * Unserialize PHP data to JavaScript object
+   * Objects remember their PHP class and property names, so serialize() writes them back unchanged
    */
   static unserialize(data: string): any {
     try {
-      // Provide all common Laravel/PHP classes in the scope for php-serialize
-      return phpSerialize.unserialize(data, classMap);
+      return new PhpReader(Buffer.from(data, 'utf-8')).read();
     } catch (error: any) {
       throw new Error(`PHP unserialization failed: ${error.message}`);
     }
@@ -73,10 +427,11 @@ export class PhpSerializer {
 
   /**
    * Serialize JavaScript object to PHP format
+   * Throws for class instances that weren't unserialized and have no class mapping
    */
   static serialize(data: any): string {
     try {
-      return phpSerialize.serialize(data);
+      return new PhpWriter().write(data);
     } catch (error: any) {
       throw new Error(`PHP serialization failed: ${error.message}`);
     }
@@ -85,7 +440,7 @@ export class PhpSerializer {
   /**
    * Add custom class mapping for deserialization
    * Useful for application-specific Laravel models or classes
-   * 
+   *
    * @param className - Fully qualified PHP class name (e.g., 'App\\Models\\User')
    * @param jsClass - JavaScript class to use for deserialization
    */
@@ -0,0 +1,74 @@
+import { RedisValueCodec, RedisSerializer } from './RedisValueCodec';
+
+// Serialized session string, as Laravel's session handler passes it to the cache
+const SESSION = 'a:2:{s:6:"_token";s:5:"token";s:3:"url";s:9:"/café/ü";}';
+
+/**
+ * CRC8 (polynomial 0x31, init 0xff) phpredis writes in front of LZ4 values
+ */
+function crc8(input: Buffer): number {
+  let crc = 0xff;
+  for (const byte of input) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x31) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+describe('RedisValueCodec', () => {
+  it.each<[RedisSerializer | undefined]>([
+    [undefined],
+    ['php'],
+    ['igbinary'],
+    ['msgpack'],
+    ['json'],
+  ])('round-trips session strings with the %s serializer', serializer => {
+    const codec = new RedisValueCodec({ serializer });
+
+    expect(codec.unwrap(codec.wrap(SESSION))).toBe(SESSION);
+  });
+
+  it("stores values in the cache repository's format", () => {
+    const value = new RedisValueCodec().wrap('abc').toString();
+
+    expect(value).toBe('s:3:"abc";');
+  });
+
+  it('returns null for values that are not in the cache format', () => {
+    const payload = Buffer.from(Buffer.from(SESSION).toString('base64'));
+
+    expect(new RedisValueCodec().unwrap(payload)).toBeNull();
+  });
+
+  it('decompresses lzf values', () => {
+    // Literal run 's:9:"abcabc', a back reference repeating "abc", then the literal '";'
+    const literal = Buffer.from('s:9:"abcabc');
+    const compressed = Buffer.concat([
+      Buffer.from([literal.length - 1]),
+      literal,
+      Buffer.from([0x20, 0x02]),
+      Buffer.from([1]),
+      Buffer.from('";'),
+    ]);
+
+    expect(new RedisValueCodec({ compression: 'lzf' }).unwrap(compressed)).toBe('abcabcabc');
+  });
+
+  it('decompresses phpredis lz4 values', () => {
+    const value = Buffer.from('s:5:"hello";');
+    const header = Buffer.alloc(4);
+    header.writeInt32LE(value.length);
+    const block = Buffer.concat([Buffer.from([value.length << 4]), value]);
+    const compressed = Buffer.concat([Buffer.from([crc8(header)]), header, block]);
+
+    expect(new RedisValueCodec({ compression: 'lz4' }).unwrap(compressed)).toBe('hello');
+  });
+
+  it('reads uncompressed values when compression is configured, like phpredis', () => {
+    const codec = new RedisValueCodec({ compression: 'lz4' });
+
+    expect(codec.unwrap(codec.wrap(SESSION))).toBe(SESSION);
+  });
+});
@@ -0,0 +1,210 @@
+import { PhpSerializer } from './PhpSerializer';
+import { lzfDecompress, phpredisLz4Decompress, zstdDecompress } from './compression';
+
+export type RedisSerializer = 'php' | 'igbinary' | 'msgpack' | 'json';
+export type RedisCompression = 'lzf' | 'lz4' | 'zstd';
+
+export interface RedisValueCodecOptions {
+  /**
+   * phpredis serializer (database.redis.options.serializer), none by default
+   */
+  serializer?: RedisSerializer;
+
+  /**
+   * phpredis compression (database.redis.options.compression), none by default
+   */
+  compression?: RedisCompression;
+}
+
+/**
+ * Converts between Redis values and session strings
+ *
+ * Laravel's redis session driver stores sessions through the cache repository, so a value is:
+ *   compression( phpredisSerializer( serialize($sessionString) ) )
+ * where both phpredis layers are optional.
+ */
+export class RedisValueCodec {
+  private serializer?: RedisSerializer;
+  private compression?: RedisCompression;
+
+  constructor(options: RedisValueCodecOptions = {}) {
+    this.serializer = options.serializer;
+    this.compression = options.compression;
+  }
+
+  /**
+   * Unwrap a Redis value into the serialized session string
+   * Returns null when the value isn't in Laravel's cache format (e.g. a plain base64 payload)
+   */
+  unwrap(raw: Buffer): string | null {
+    const data = this.decompress(raw);
+    const value = this.unserializeConnectionValue(data);
+
+    // Laravel's cache repository PHP serializes every non-numeric value
+    if (!/^s:\d+:"/.test(value)) {
+      return null;
+    }
+
+    const session = PhpSerializer.unserialize(value);
+    if (typeof session !== 'string') {
+      throw new Error('Redis session value is not a serialized string');
+    }
+
+    return session;
+  }
+
+  /**
+   * Wrap a serialized session string the way Laravel's cache repository stores it
+   * Values are written uncompressed; phpredis falls back to raw data when decompression fails
+   */
+  wrap(session: string): Buffer {
+    const value = PhpSerializer.serialize(session);
+
+    switch (this.serializer) {
+      case 'php':
+        return Buffer.from(PhpSerializer.serialize(value), 'utf-8');
+      case 'igbinary':
+        return RedisValueCodec.igbinaryString(Buffer.from(value, 'utf-8'));
+      case 'msgpack':
+        return RedisValueCodec.msgpackString(Buffer.from(value, 'utf-8'));
+      case 'json':
+        return Buffer.from(JSON.stringify(value), 'utf-8');
+      default:
+        return Buffer.from(value, 'utf-8');
+    }
+  }
+
+  private decompress(raw: Buffer): Buffer {
+    let decompressed: Buffer | null = null;
+
+    switch (this.compression) {
+      case 'lzf':
+        decompressed = lzfDecompress(raw);
+        break;
+      case 'lz4':
+        decompressed = phpredisLz4Decompress(raw);
+        break;
+      case 'zstd':
+        decompressed = zstdDecompress(raw);
+        break;
+    }
+
+    // Like phpredis, use the raw value when it isn't compressed data
+    return decompressed || raw;
+  }
+
+  private unserializeConnectionValue(data: Buffer): string {
+    switch (this.serializer) {
+      case 'php': {
+        const value = PhpSerializer.unserialize(data.toString('utf-8'));
+        if (typeof value !== 'string') {
+          throw new Error('Unexpected php-serialized Redis value');
+        }
+        return value;
+      }
+      case 'igbinary':
+        return RedisValueCodec.readIgbinaryString(data).toString('utf-8');
+      case 'msgpack':
+        return RedisValueCodec.readMsgpackString(data).toString('utf-8');
+      case 'json': {
+        const value = JSON.parse(data.toString('utf-8'));
+        if (typeof value !== 'string') {
+          throw new Error('Unexpected JSON Redis value');
+        }
+        return value;
+      }
+      default:
+        return data.toString('utf-8');
+    }
+  }
+
+  /**
+   * igbinary v2 string: 0x00000002 header, then string8/16/32 (big-endian length) or empty
+   */
+  private static readIgbinaryString(data: Buffer): Buffer {
+    if (data.length < 5 || data.readUInt32BE(0) !== 2) {
+      throw new Error('Invalid igbinary header');
+    }
+
+    const type = data[4];
+    switch (type) {
+      case 0x0d:
+        return Buffer.alloc(0);
+      case 0x11:
+        return data.subarray(6, 6 + data.readUInt8(5));
+      case 0x12:
+        return data.subarray(7, 7 + data.readUInt16BE(5));
+      case 0x13:
+        return data.subarray(9, 9 + data.readUInt32BE(5));
+      default:
+        throw new Error(`Unsupported igbinary type: 0x${type.toString(16)}`);
+    }
+  }
+
+  private static igbinaryString(value: Buffer): Buffer {
+    const header = Buffer.from([0x00, 0x00, 0x00, 0x02]);
+
+    if (value.length === 0) {
+      return Buffer.concat([header, Buffer.from([0x0d])]);
+    }
+    if (value.length <= 0xff) {
+      return Buffer.concat([header, Buffer.from([0x11, value.length]), value]);
+    }
+    if (value.length <= 0xffff) {
+      const length = Buffer.alloc(3);
+      length.writeUInt8(0x12, 0);
+      length.writeUInt16BE(value.length, 1);
+      return Buffer.concat([header, length, value]);
+    }
+
+    const length = Buffer.alloc(5);
+    length.writeUInt8(0x13, 0);
+    length.writeUInt32BE(value.length, 1);
+    return Buffer.concat([header, length, value]);
+  }
+
+  /**
+   * MessagePack str (fixstr/str8/16/32) or bin (bin8/16/32)
+   */
+  private static readMsgpackString(data: Buffer): Buffer {
+    const type = data[0];
+
+    if (type >= 0xa0 && type <= 0xbf) {
+      return data.subarray(1, 1 + (type & 0x1f));
+    }
+
+    switch (type) {
+      case 0xc4:
+      case 0xd9:
+        return data.subarray(2, 2 + data.readUInt8(1));
+      case 0xc5:
+      case 0xda:
+        return data.subarray(3, 3 + data.readUInt16BE(1));
+      case 0xc6:
+      case 0xdb:
+        return data.subarray(5, 5 + data.readUInt32BE(1));
+      default:
+        throw new Error(`Unsupported msgpack type: 0x${type.toString(16)}`);
+    }
+  }
+
+  private static msgpackString(value: Buffer): Buffer {
+    if (value.length < 32) {
+      return Buffer.concat([Buffer.from([0xa0 | value.length]), value]);
+    }
+    if (value.length <= 0xff) {
+      return Buffer.concat([Buffer.from([0xd9, value.length]), value]);
+    }
+    if (value.length <= 0xffff) {
+      const header = Buffer.alloc(3);
+      header.writeUInt8(0xda, 0);
+      header.writeUInt16BE(value.length, 1);
+      return Buffer.concat([header, value]);
+    }
+
+    const header = Buffer.alloc(5);
+    header.writeUInt8(0xdb, 0);
+    header.writeUInt32BE(value.length, 1);
+    return Buffer.concat([header, value]);
+  }
+}
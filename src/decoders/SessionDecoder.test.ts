@@ -0,0 +1,141 @@
+import * as crypto from 'crypto';
+import { SessionDecoder } from './SessionDecoder';
+
+const key = (bytes: number) => `base64:${crypto.randomBytes(bytes).toString('base64')}`;
+
+const APP_KEY = key(32);
+
+function envelope(encrypted: string): { iv: string; value: string; mac: string; tag: string } {
+  return JSON.parse(Buffer.from(encrypted, 'base64').toString());
+}
+
+describe('SessionDecoder encryption', () => {
+  it.each([
+    ['AES-256-CBC', 32],
+    ['AES-128-CBC', 16],
+    ['AES-256-GCM', 32],
+    ['AES-128-GCM', 16],
+  ])('round-trips values with %s', (cipher, size) => {
+    const decoder = new SessionDecoder(key(size), undefined, false, { cipher });
+
+    expect(decoder.decrypt(decoder.encrypt('plain', { serialize: false }))).toBe('plain');
+    expect(decoder.decrypt(decoder.encrypt('serialized'))).toBe('serialized');
+  });
+
+  it('emits a MAC for CBC and a tag for GCM, like Laravel', () => {
+    const cbc = envelope(new SessionDecoder(APP_KEY).encrypt('value'));
+    expect(cbc.mac).toMatch(/^[0-9a-f]{64}$/);
+    expect(cbc.tag).toBe('');
+
+    const gcm = envelope(
+      new SessionDecoder(APP_KEY, undefined, false, { cipher: 'AES-256-GCM' }).encrypt('value')
+    );
+    expect(gcm.mac).toBe('');
+    expect(Buffer.from(gcm.tag, 'base64')).toHaveLength(16);
+  });
+
+  it('rejects payloads with a tampered MAC', () => {
+    const decoder = new SessionDecoder(APP_KEY);
+    const payload = envelope(decoder.encrypt('value'));
+    payload.mac = '0'.repeat(64);
+
+    expect(() => decoder.decrypt(Buffer.from(JSON.stringify(payload)).toString('base64'))).toThrow(
+      'MAC verification failed'
+    );
+  });
+
+  it('rejects values encrypted with another key', () => {
+    const encrypted = new SessionDecoder(key(32)).encrypt('value');
+
+    expect(() => new SessionDecoder(APP_KEY).decrypt(encrypted)).toThrow('Decryption failed');
+  });
+
+  it('validates the key length against the cipher', () => {
+    expect(() => new SessionDecoder(key(16), undefined, false, { cipher: 'AES-256-CBC' })).toThrow(
+      'Unsupported cipher or incorrect key length'
+    );
+  });
+});
+
+describe('SessionDecoder cookies', () => {
+  const decoder = new SessionDecoder(APP_KEY);
+
+  it("prefixes cookie values with Laravel's CookieValuePrefix", () => {
+    const rawKey = Buffer.from(APP_KEY.substring(7), 'base64');
+    const prefix =
+      crypto.createHmac('sha1', rawKey).update('laravel_sessionv2').digest('hex') + '|';
+
+    expect(decoder.getCookiePrefix('laravel_session')).toBe(prefix);
+    expect(decoder.decrypt(decoder.encryptCookie('laravel_session', 'abc'))).toBe(prefix + 'abc');
+  });
+
+  it('strips the cookie value prefix when decrypting', () => {
+    const cookie = decoder.encryptCookie('laravel_session', 'session-id');
+
+    expect(decoder.decryptCookie('laravel_session', cookie)).toBe('session-id');
+  });
+});
+
+describe('SessionDecoder key rotation', () => {
+  const previousKey = key(32);
+  const decoder = new SessionDecoder(APP_KEY, undefined, false, { previousKeys: [previousKey] });
+
+  it('reports the current key as index 0', () => {
+    expect(decoder.decryptWithKeyInfo(decoder.encrypt('value'))).toEqual({
+      value: 'value',
+      keyIndex: 0,
+    });
+  });
+
+  it('decrypts values encrypted with a previous key', () => {
+    const encrypted = new SessionDecoder(previousKey).encrypt('value');
+
+    expect(decoder.decryptWithKeyInfo(encrypted)).toEqual({ value: 'value', keyIndex: 1 });
+  });
+
+  it('verifies cookie prefixes with the key that encrypted the cookie', () => {
+    const cookie = new SessionDecoder(previousKey).encryptCookie('laravel_session', 'session-id');
+
+    expect(decoder.decryptCookieWithKeyInfo('laravel_session', cookie)).toEqual({
+      value: 'session-id',
+      keyIndex: 1,
+    });
+  });
+});
+
+describe('SessionDecoder payloads', () => {
+  const sessionData = {
+    _token: 'token',
+    _previous: { url: 'https://example.com/ü' },
+    [new SessionDecoder().getAuthKey()]: 7,
+  };
+
+  it('round-trips plain session payloads', () => {
+    const decoder = new SessionDecoder(APP_KEY);
+
+    expect(decoder.decode(decoder.encode(sessionData))).toEqual(sessionData);
+  });
+
+  it('round-trips encrypted session payloads (SESSION_ENCRYPT)', () => {
+    const decoder = new SessionDecoder(APP_KEY, undefined, false, { encrypt: true });
+    const payload = decoder.encode(sessionData);
+
+    expect(decoder.isEncrypted(Buffer.from(payload, 'base64').toString())).toBe(true);
+    expect(new SessionDecoder(APP_KEY).decode(payload)).toEqual(sessionData);
+  });
+
+  it('finds the user ID of each guard', () => {
+    const decoder = new SessionDecoder();
+
+    expect(decoder.getUserId(sessionData)).toBe(7);
+    expect(decoder.getUserId(sessionData, 'admin')).toBeNull();
+  });
+
+  it('does not match guards that share a name prefix', () => {
+    const decoder = new SessionDecoder();
+    const data = { [`login_web_admin_${'a'.repeat(40)}`]: 3 };
+
+    expect(decoder.getUserId(data, 'web')).toBeNull();
+    expect(decoder.getUserId(data, 'web_admin')).toBe(3);
+  });
+});
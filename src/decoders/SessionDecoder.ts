@@ -1,23 +1,79 @@
 import { PhpSerializer } from './PhpSerializer';
-import { SessionData } from '../types';
+import { SessionData, EncryptionOptions, DecryptionOptions, DecryptionResult } from '../types';
 import * as crypto from 'crypto';
-import { sanitizeError, shouldSanitize } from '../utils/SecurityUtils';
+import { hashEquals, sanitizeError, shouldSanitize } from '../utils/SecurityUtils';
+
+/**
+ * Ciphers supported by Laravel's Encrypter (key size in bytes)
+ */
+const SUPPORTED_CIPHERS: { [cipher: string]: { size: number; aead: boolean } } = {
+  'aes-128-cbc': { size: 16, aead: false },
+  'aes-256-cbc': { size: 32, aead: false },
+  'aes-128-gcm': { size: 16, aead: true },
+  'aes-256-gcm': { size: 32, aead: true },
+};
 
 export class SessionDecoder {
   private appKey?: Buffer;
+  private previousKeys: Buffer[] = [];
+  private configuredKeys: string[] = [];
+  private cipher: string;
+  private encryptPayloads: boolean;
   private permissionsKey?: string | string[];
   private debug: boolean;
 
-  constructor(appKey?: string, permissionsKey?: string | string[], debug: boolean = false) {
+  constructor(
+    appKey?: string,
+    permissionsKey?: string | string[],
+    debug: boolean = false,
+    options: DecryptionOptions = {}
+  ) {
+    this.cipher = (options.cipher || 'aes-256-cbc').toLowerCase();
+    this.encryptPayloads = options.encrypt || false;
     if (appKey) {
-      // Remove 'base64:' prefix if present
-      const key = appKey.replace(/^base64:/, '');
-      this.appKey = Buffer.from(key, 'base64');
+      this.appKey = SessionDecoder.parseKey(appKey);
+
+      this.previousKeys = (options.previousKeys || []).map(key => SessionDecoder.parseKey(key));
+      this.configuredKeys = [appKey, ...(options.previousKeys || [])];
+
+      for (const key of [this.appKey, ...this.previousKeys]) {
+        if (!SessionDecoder.supported(key, this.cipher)) {
+          throw new Error(
+            `Unsupported cipher or incorrect key length. Supported ciphers are: ${Object.keys(SUPPORTED_CIPHERS).join(', ')}.`
+          );
+        }
+      }
     }
     this.permissionsKey = permissionsKey;
     this.debug = debug;
   }
 
+  /**
+   * Determine if the given key and cipher combination is valid (Encrypter::supported)
+   */
+  static supported(key: Buffer, cipher: string): boolean {
+    const definition = SUPPORTED_CIPHERS[cipher.toLowerCase()];
+    return !!definition && definition.size === key.length;
+  }
+
+  /**
+   * Parse an APP_KEY value into raw key bytes
+   * 'base64:' keys are decoded; raw keys of a valid length are used as-is, like Laravel
+   */
+  private static parseKey(appKey: string): Buffer {
+    if (appKey.startsWith('base64:')) {
+      return Buffer.from(appKey.substring(7), 'base64');
+    }
+
+    const raw = Buffer.from(appKey, 'utf-8');
+    if (raw.length === 16 || raw.length === 32) {
+      return raw;
+    }
+
+    // Backward compatibility: base64 keys passed without the prefix
+    return Buffer.from(appKey, 'base64');
+  }
+
   private log(...args: any[]): void {
     if (this.debug) {
       console.log('[SessionDecoder]', ...args);
@@ -39,9 +95,16 @@ export class SessionDecoder {
       this.log('📦 Payload length:', payload.length);
       
       // Step 1: Base64 decode
-      const decoded = Buffer.from(payload, 'base64').toString('utf-8');
+      let decoded = Buffer.from(payload, 'base64').toString('utf-8');
       this.log('✅ Base64 decoded, length:', decoded.length);
 
+      // Step 1b: Decrypt if Laravel's session.encrypt is enabled (EncryptedStore)
+      if (this.isEncrypted(decoded)) {
+        this.log('🔐 Encrypted session payload detected, decrypting...');
+        decoded = this.decrypt(decoded) || '';
+        this.log('✅ Session payload decrypted');
+      }
+
       // Step 2: Unserialize PHP format (stdClass support is built-in)
       const unserialized = PhpSerializer.unserialize(decoded);
       this.log('✅ PHP unserialized successfully');
@@ -60,59 +123,117 @@ export class SessionDecoder {
     }
   }
 
+  /**
+   * Serialize session data to PHP format and base64 encode it (inverse of decode)
+   */
+  encode(sessionData: SessionData): string {
+    try {
+      this.log('🔒 Encoding session payload...');
+      let serialized = PhpSerializer.serialize(sessionData);
+
+      // EncryptedStore encrypts the serialized data (PHP serialized once more by Crypt::encrypt)
+      if (this.encryptPayloads) {
+        serialized = this.encrypt(serialized);
+      }
+
+      const payload = Buffer.from(serialized, 'utf-8').toString('base64');
+      this.log('✅ Session encoded, length:', payload.length);
+      return payload;
+    } catch (error: any) {
+      this.logError('❌ Session encode failed:', sanitizeError(error));
+      throw new Error(`Session encode failed: ${sanitizeError(error)}`);
+    }
+  }
+
   /**
    * Decrypt encrypted session payload (for encrypted sessions)
    */
   decrypt(encryptedPayload: string): string | null {
+    return this.decryptWithKeyInfo(encryptedPayload).value;
+  }
+
+  /**
+   * Decrypt and report which key matched
+   * keyIndex 0 is the current APP_KEY, 1..n are the previous keys in configured order
+   */
+  decryptWithKeyInfo(encryptedPayload: string): DecryptionResult {
     if (!this.appKey) {
       throw new Error('APP_KEY is required for encrypted sessions');
     }
 
     try {
       this.log('📦 Parsing encrypted payload...');
-      const payload = JSON.parse(Buffer.from(encryptedPayload, 'base64').toString());
+      const payload = this.parsePayload(encryptedPayload);
       this.log('📦 Payload structure parsed successfully');
 
+      const cipher = this.cipherForPayload(payload);
+      const aead = SUPPORTED_CIPHERS[cipher].aead;
       const iv = Buffer.from(payload.iv, 'base64');
       const value = Buffer.from(payload.value, 'base64');
-      const mac = payload.mac;
+      const keys = [this.appKey, ...this.previousKeys];
 
-      // Verify MAC - Laravel concatenates IV and value strings (base64), not binary
-      this.log('🔐 Verifying MAC...');
-      const calculatedMac = crypto
-        .createHmac('sha256', this.appKey)
-        .update(payload.iv + payload.value)  // Concatenate base64 strings, not decoded buffers
-        .digest('hex');
+      let decrypted: Buffer | null = null;
+      let keyIndex = -1;
 
-      if (calculatedMac !== mac) {
-        throw new Error('MAC verification failed - calculated MAC does not match');
+      // Like Laravel's Encrypter, try the current key first, then each previous key
+      for (let i = 0; i < keys.length && !decrypted; i++) {
+        if (aead) {
+          // AEAD ciphers authenticate through the tag instead of a MAC
+          this.log('🔐 Using authentication tag (' + cipher + ')');
+        } else {
+          // Verify MAC - Laravel concatenates IV and value strings (base64), not binary
+          this.log('🔐 Verifying MAC...');
+          if (!hashEquals(this.hash(keys[i], payload.iv, payload.value), payload.mac)) {
+            continue;
+          }
+          this.log('✅ MAC verified successfully');
+        }
+
+        // Decrypt
+        this.log('🔓 Decrypting value...');
+        try {
+          const decipher = crypto.createDecipheriv(cipher, keys[i], iv);
+          if (aead) {
+            (decipher as crypto.DecipherGCM).setAuthTag(Buffer.from(payload.tag!, 'base64'));
+          }
+          decrypted = Buffer.concat([decipher.update(value), decipher.final()]);
+          keyIndex = i;
+        } catch (error: any) {
+          // A failing tag only means this key didn't match
+          if (!aead) {
+            throw error;
+          }
+        }
       }
 
-      this.log('✅ MAC verified successfully');
+      if (!decrypted) {
+        throw new Error(
+          aead
+            ? 'Could not decrypt the data with any configured key'
+            : 'MAC verification failed - calculated MAC does not match'
+        );
+      }
 
-      // Decrypt
-      this.log('🔓 Decrypting value...');
-      const decipher = crypto.createDecipheriv('aes-256-cbc', this.appKey, iv);
-      let decrypted = decipher.update(value);
-      decrypted = Buffer.concat([decrypted, decipher.final()]);
+      if (keyIndex > 0) {
+        this.log('🔁 Decrypted with previous key #' + keyIndex);
+      }
 
       // The decrypted value might be PHP serialized, try to return as string
       const result = decrypted.toString();
 
       // Check if result is PHP serialized (starts with s: for string serialization)
       // If it's PHP serialized, we need to unserialize it
-      if (result.startsWith('s:')) {
+      // Format: s:length:"value"; (value may span lines, e.g. serialized session data)
+      if (/^s:\d+:"/.test(result)) {
         this.log('🔍 Detected PHP serialized string');
-        // Extract the actual string value from PHP serialization
-        // Format: s:length:"value";
-        const match = result.match(/s:\d+:"(.*)";/);
-        if (match && match[1]) {
+        const unserialized = this.tryUnserialize(result);
+        if (typeof unserialized === 'string' && unserialized) {
           if (shouldSanitize()) {
-            this.log('✅ Extracted session ID from PHP serialization');
+            this.log('✅ Extracted value from PHP serialization');
           } else {
-            this.log('✅ Extracted:', match[1]);
+            this.log('✅ Extracted:', unserialized);
           }
-          return match[1];
+          return { value: unserialized, keyIndex };
         }
       }
 
@@ -121,7 +242,7 @@ export class SessionDecoder {
       } else {
         this.log('✅ Decryption completed');
       }
-      return result;
+      return { value: result, keyIndex };
     } catch (error: any) {
       this.logError('❌ Decryption error:', sanitizeError(error));
       throw new Error(`Decryption failed: ${sanitizeError(error)}`);
@@ -129,16 +250,215 @@ export class SessionDecoder {
   }
 
   /**
-   * Get authenticated user ID from session data
+   * Encrypt a value into Laravel's base64 JSON envelope (inverse of decrypt)
+   * Like Laravel's Crypt::encrypt, values are PHP serialized unless `serialize: false`
+   */
+  encrypt(value: any, options: EncryptionOptions = {}): string {
+    if (!this.appKey) {
+      throw new Error('APP_KEY is required for encryption');
+    }
+
+    const serialize = options.serialize !== false;
+
+    try {
+      const plaintext = serialize ? PhpSerializer.serialize(value) : String(value);
+      const aead = SUPPORTED_CIPHERS[this.cipher].aead;
+      const iv = crypto.randomBytes(aead ? 12 : 16);
+      const cipher = crypto.createCipheriv(this.cipher, this.appKey, iv);
+      const encrypted = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+      const ivBase64 = iv.toString('base64');
+      const valueBase64 = encrypted.toString('base64');
+
+      // Same key order as Laravel's json_encode(compact('iv', 'value', 'mac', 'tag'))
+      // AEAD ciphers carry a tag and an empty MAC, CBC ciphers the opposite
+      const payload = {
+        iv: ivBase64,
+        value: valueBase64,
+        mac: aead ? '' : this.hash(this.appKey, ivBase64, valueBase64),
+        tag: aead ? (cipher as crypto.CipherGCM).getAuthTag().toString('base64') : '',
+      };
+
+      return Buffer.from(JSON.stringify(payload)).toString('base64');
+    } catch (error: any) {
+      this.logError('❌ Encryption error:', sanitizeError(error));
+      throw new Error(`Encryption failed: ${sanitizeError(error)}`);
+    }
+  }
+
+  /**
+   * Encrypt a cookie value the way Laravel's EncryptCookies middleware does
+   * (cookie value prefix + unserialized encryption)
+   */
+  encryptCookie(cookieName: string, value: string): string {
+    return this.encrypt(this.getCookiePrefix(cookieName) + value, { serialize: false });
+  }
+
+  /**
+   * Decrypt a cookie value and strip Laravel's cookie value prefix
+   */
+  decryptCookie(cookieName: string, value: string): string | null {
+    return this.decryptCookieWithKeyInfo(cookieName, value).value;
+  }
+
+  /**
+   * Decrypt a cookie value and report which key matched (see decryptWithKeyInfo)
+   */
+  decryptCookieWithKeyInfo(cookieName: string, value: string): DecryptionResult {
+    const { value: decrypted, keyIndex } = this.decryptWithKeyInfo(value);
+
+    if (!decrypted || !decrypted.includes('|')) {
+      return { value: decrypted, keyIndex };
+    }
+
+    // Laravel computes the prefix with whichever key encrypted the cookie
+    const keys = [this.appKey!, ...this.previousKeys];
+    const prefix = this.getCookiePrefix(cookieName, keys[keyIndex]);
+    if (decrypted.startsWith(prefix)) {
+      this.log('✅ Cookie value prefix verified');
+      return { value: decrypted.substring(prefix.length), keyIndex };
+    }
+
+    // If the decrypted value contains a pipe (|), it's in "hash|value" format
+    // Prefix doesn't match this cookie name (e.g. renamed cookie), use the second part
+    const parts = decrypted.split('|');
+    this.log('🔀 Detected pipe separator in decrypted value');
+    if (shouldSanitize()) {
+      this.log('🔀 Using second part as cookie value');
+    } else {
+      this.log('🔀 Parts:', parts);
+      this.log('🔀 Using second part as cookie value:', parts[1]);
+    }
+    return { value: parts[1], keyIndex };
+  }
+
+  /**
+   * Cookie value prefix Laravel prepends before encrypting cookies
+   * Equivalent of CookieValuePrefix::create(): hash_hmac('sha1', $name.'v2', $key).'|'
+   */
+  getCookiePrefix(cookieName: string, key: Buffer | undefined = this.appKey): string {
+    if (!key) {
+      throw new Error('APP_KEY is required for cookie prefixes');
+    }
+    return crypto.createHmac('sha1', key).update(`${cookieName}v2`).digest('hex') + '|';
+  }
+
+  /**
+   * Unserialize PHP data, returning null instead of throwing for malformed input
+   */
+  private tryUnserialize(value: string): any {
+    try {
+      return PhpSerializer.unserialize(value);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a value is Laravel's encrypted envelope rather than serialized PHP
+   */
+  isEncrypted(value: string): boolean {
+    // base64 of '{"iv":' - serialized PHP never starts like this
+    if (!value.startsWith('eyJ')) {
+      return false;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(value, 'base64').toString());
+      return !!payload && typeof payload.iv === 'string' && typeof payload.value === 'string';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse and validate the base64 JSON envelope ({iv, value, mac, tag})
+   */
+  private parsePayload(encryptedPayload: string): { iv: string; value: string; mac: string; tag?: string } {
+    const payload = JSON.parse(Buffer.from(encryptedPayload, 'base64').toString());
+
+    if (!payload || typeof payload !== 'object') {
+      throw new Error('The payload is invalid');
+    }
+
+    for (const field of ['iv', 'value', 'mac']) {
+      if (typeof payload[field] !== 'string') {
+        throw new Error('The payload is invalid');
+      }
+    }
+
+    const ivLength = Buffer.from(payload.iv, 'base64').length;
+    if (ivLength !== (SUPPORTED_CIPHERS[this.cipherForPayload(payload)].aead ? 12 : 16)) {
+      throw new Error('The payload is invalid');
+    }
+
+    if (payload.tag && Buffer.from(payload.tag, 'base64').length !== 16) {
+      throw new Error('Could not decrypt the data: invalid tag');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Pick the cipher for a payload: a non-empty tag means AES-GCM, otherwise AES-CBC
+   * The key size follows the configured cipher (validated against the key)
+   */
+  private cipherForPayload(payload: { tag?: string }): string {
+    const size = SUPPORTED_CIPHERS[this.cipher].size * 8;
+    return payload.tag ? `aes-${size}-gcm` : `aes-${size}-cbc`;
+  }
+
+  /**
+   * MAC over the base64 IV and value, like Laravel's Encrypter::hash()
+   */
+  private hash(key: Buffer, iv: string, value: string): string {
+    return crypto.createHmac('sha256', key).update(iv + value).digest('hex');
+  }
+
+  /**
+   * Check a stored password hash (AuthenticateSession's password_hash_{guard} or the recaller's
+   * third segment) against the user's current password hash
+   * Newer Laravel versions store an HMAC-SHA256 of the hash keyed with APP_KEY instead of the hash
+   */
+  verifyPasswordHash(passwordHash: string, storedValue: string): boolean {
+    if (hashEquals(passwordHash, storedValue)) {
+      return true;
+    }
+
+    const keys: Array<string | Buffer> = [
+      ...this.configuredKeys,
+      ...(this.appKey ? [this.appKey, ...this.previousKeys] : []),
+    ];
+    return keys.some(key =>
+      hashEquals(crypto.createHmac('sha256', key).update(passwordHash).digest('hex'), storedValue)
+    );
+  }
+
+  /**
+   * Session key Laravel's SessionGuard stores the user ID under
+   * Format: login_{guard}_{sha1('Illuminate\Auth\SessionGuard')}
+   */
+  getAuthKey(guard: string = 'web'): string {
+    const hash = crypto.createHash('sha1').update('Illuminate\\Auth\\SessionGuard').digest('hex');
+    return `login_${guard}_${hash}`;
+  }
+
+  /**
+   * Get authenticated user ID for a guard from session data
    */
-  getUserId(sessionData: SessionData): number | null {
+  getUserId(sessionData: SessionData, guard: string = 'web'): number | null {
     this.log('🔍 Looking for user ID in session...');
     
-    // Find Laravel's auth key (login_web_{hash})
-    const authKey = Object.keys(sessionData).find(key => key.startsWith('login_web_'));
+    // Find Laravel's auth key (login_{guard}_{sha1}), preferring the exact SessionGuard key
+    // Other guard classes hash their own name; the sha1 suffix keeps 'web' from matching 'web_admin'
+    const exactKey = this.getAuthKey(guard);
+    const escapedGuard = guard.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const guardKey = new RegExp(`^login_${escapedGuard}_[0-9a-f]{40}$`);
+    const authKey =
+      exactKey in sessionData ? exactKey : Object.keys(sessionData).find(key => guardKey.test(key));
 
     if (!authKey) {
-      this.log('❌ No auth key found (login_web_*)');
+      this.log(`❌ No auth key found (login_${guard}_*)`);
       if (shouldSanitize()) {
         const sanitizedKeys = Object.keys(sessionData).filter(key => !key.toLowerCase().includes('token'));
         this.log('📋 Available keys (sanitized):', sanitizedKeys.length, 'keys');
@@ -0,0 +1,246 @@
+import * as zlib from 'zlib';
+
+/**
+ * Decompressors for the formats phpredis can apply to values (Redis::OPT_COMPRESSION)
+ * Each returns null when the input isn't valid compressed data, so callers can fall
+ * back to the raw value exactly like phpredis does. zstdDecompress throws instead when
+ * the Node.js runtime has no zstd support, since that is a configuration error.
+ */
+
+/**
+ * zlib's zstd API (Node.js >= 22.15), missing from older runtimes and @types/node
+ */
+interface ZstdZlib {
+  zstdDecompressSync?: (input: Buffer) => Buffer;
+}
+
+/**
+ * LZF (liblzf) stream decompression
+ */
+export function lzfDecompress(input: Buffer): Buffer | null {
+  const output: number[] = [];
+  let ip = 0;
+
+  while (ip < input.length) {
+    const ctrl = input[ip++];
+
+    if (ctrl < 32) {
+      // Literal run of ctrl + 1 bytes
+      const end = ip + ctrl + 1;
+      if (end > input.length) {
+        return null;
+      }
+      while (ip < end) {
+        output.push(input[ip++]);
+      }
+      continue;
+    }
+
+    // Back reference
+    let length = ctrl >> 5;
+    if (length === 7) {
+      if (ip >= input.length) {
+        return null;
+      }
+      length += input[ip++];
+    }
+    if (ip >= input.length) {
+      return null;
+    }
+
+    let ref = output.length - ((ctrl & 0x1f) << 8) - 1 - input[ip++];
+    if (ref < 0) {
+      return null;
+    }
+
+    for (let i = 0; i < length + 2; i++) {
+      output.push(output[ref++]);
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * LZ4 block decompression
+ */
+export function lz4BlockDecompress(input: Buffer): Buffer | null {
+  const output: number[] = [];
+  let ip = 0;
+
+  const readLength = (initial: number): number | null => {
+    let length = initial;
+    if (length === 15) {
+      let byte: number;
+      do {
+        if (ip >= input.length) {
+          return null;
+        }
+        byte = input[ip++];
+        length += byte;
+      } while (byte === 255);
+    }
+    return length;
+  };
+
+  while (ip < input.length) {
+    const token = input[ip++];
+
+    const literals = readLength(token >> 4);
+    if (literals === null || ip + literals > input.length) {
+      return null;
+    }
+    for (let i = 0; i < literals; i++) {
+      output.push(input[ip++]);
+    }
+
+    // The last sequence only contains literals
+    if (ip >= input.length) {
+      break;
+    }
+    if (ip + 2 > input.length) {
+      return null;
+    }
+
+    const offset = input[ip] | (input[ip + 1] << 8);
+    ip += 2;
+
+    const matchLength = readLength(token & 0x0f);
+    if (matchLength === null || offset === 0 || offset > output.length) {
+      return null;
+    }
+
+    let ref = output.length - offset;
+    for (let i = 0; i < matchLength + 4; i++) {
+      output.push(output[ref++]);
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * CRC8 (polynomial 0x31, init 0xff) phpredis uses to checksum its LZ4 header
+ */
+function crc8(input: Buffer): number {
+  let crc = 0xff;
+
+  for (const byte of input) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x31) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+
+  return crc;
+}
+
+/**
+ * phpredis LZ4 values: [crc8 of length][int32 original length][LZ4 block]
+ */
+export function phpredisLz4Decompress(input: Buffer): Buffer | null {
+  if (input.length < 5) {
+    return null;
+  }
+
+  const header = input.subarray(1, 5);
+  if (crc8(header) !== input[0]) {
+    return null;
+  }
+
+  const decompressed = lz4BlockDecompress(input.subarray(5));
+  return decompressed && decompressed.length === header.readInt32LE(0) ? decompressed : null;
+}
+
+/**
+ * Zstandard frame decompression (requires Node.js zstd support, available from 22.15)
+ */
+export function zstdDecompress(input: Buffer): Buffer | null {
+  const { zstdDecompressSync } = zlib as ZstdZlib;
+  if (!zstdDecompressSync) {
+    throw new Error('zstd compression requires Node.js >= 22.15');
+  }
+
+  try {
+    return zstdDecompressSync(input);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * FastLZ (level 1 and 2) block decompression, php-memcached's default compression
+ */
+export function fastlzDecompress(input: Buffer): Buffer | null {
+  if (input.length === 0) {
+    return null;
+  }
+
+  // The level is stored in the top 3 bits of the first byte
+  const level = (input[0] >> 5) + 1;
+  if (level !== 1 && level !== 2) {
+    return null;
+  }
+
+  const output: number[] = [];
+  let ip = 1;
+  let ctrl = input[0] & 31;
+
+  for (;;) {
+    if (ctrl < 32) {
+      // Literal run of ctrl + 1 bytes
+      const end = ip + ctrl + 1;
+      if (end > input.length) {
+        return null;
+      }
+      while (ip < end) {
+        output.push(input[ip++]);
+      }
+    } else {
+      // Back reference of length + 3 bytes
+      let length = (ctrl >> 5) - 1;
+      let distance = (ctrl & 31) << 8;
+
+      if (length === 6) {
+        let code: number;
+        do {
+          if (ip >= input.length) {
+            return null;
+          }
+          code = input[ip++];
+          length += code;
+        } while (level === 2 && code === 255);
+      }
+
+      if (ip >= input.length) {
+        return null;
+      }
+      const code = input[ip++];
+      distance += code;
+
+      // Level 2 escapes distances beyond 8191 with a 16-bit value
+      if (level === 2 && code === 255 && distance === (31 << 8) + 255) {
+        if (ip + 2 > input.length) {
+          return null;
+        }
+        distance = ((input[ip] << 8) | input[ip + 1]) + 8191;
+        ip += 2;
+      }
+
+      let ref = output.length - distance - 1;
+      if (ref < 0) {
+        return null;
+      }
+      for (let i = 0; i < length + 3; i++) {
+        output.push(output[ref++]);
+      }
+    }
+
+    if (ip >= input.length) {
+      break;
+    }
+    ctrl = input[ip++];
+  }
+
+  return Buffer.from(output);
+}
@@ -3,7 +3,11 @@ export { LaravelSessionClient } from './LaravelSessionClient';
 export { SessionDecoder } from './decoders/SessionDecoder';
 export { PhpSerializer } from './decoders/PhpSerializer';
 export { DatabaseStore } from './stores/DatabaseStore';
+export { FileStore } from './stores/FileStore';
+export { MemoryStore } from './stores/MemoryStore';
 export { SessionValidator } from './validators/SessionValidator';
+export { MemoryValidationCache } from './cache/MemoryValidationCache';
+export * as rules from './validators/rules';
 
 // Next.js middleware - safe to export (no external deps)
 export {
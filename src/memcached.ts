@@ -0,0 +1,26 @@
+// Memcached store export - requires 'memjs' peer dependency
+// Importing this entry point registers the 'memcached' session driver
+import { LaravelSessionClient } from './LaravelSessionClient';
+import { MemcachedStore } from './stores/MemcachedStore';
+
+LaravelSessionClient.registerDriver('memcached', (config, options) => {
+  if (!config.memcached) {
+    throw new Error('Memcached configuration is required for memcached session driver');
+  }
+  if (!config.database) {
+    throw new Error(
+      'Database configuration is required for memcached session driver (needed for user/role queries)'
+    );
+  }
+
+  return new MemcachedStore(
+    config.memcached,
+    config.database,
+    config.session.prefix || 'laravel_cache_',
+    config.session.table || 'sessions',
+    options.debug,
+    options.lifetime
+  );
+});
+
+export { MemcachedStore };
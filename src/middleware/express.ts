@@ -13,8 +13,9 @@ declare global {
 export function createExpressMiddleware(client: LaravelSessionClient) {
   return async (req: Request, res: Response, next: NextFunction) => {
     const sessionId = req.cookies[client.getSessionCookieName()];
+    const rememberCookie = req.cookies[client.getRememberCookieName()];
 
-    if (!sessionId) {
+    if (!sessionId && !rememberCookie) {
       return res.status(401).json({
         error: 'Unauthorized',
         message: 'No session cookie found',
@@ -22,7 +23,11 @@ export function createExpressMiddleware(client: LaravelSessionClient) {
     }
 
     try {
-      const result = await client.validateSession(sessionId);
+      const result = await client.validateSession(sessionId || '', {
+        rememberCookie,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
 
       if (!result.valid) {
         return res.status(401).json({
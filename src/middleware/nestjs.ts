@@ -8,12 +8,17 @@ export class LaravelSessionGuard implements CanActivate {
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const sessionId = request.cookies[this.client.getSessionCookieName()];
+    const rememberCookie = request.cookies[this.client.getRememberCookieName()];
 
-    if (!sessionId) {
+    if (!sessionId && !rememberCookie) {
       return false;
     }
 
-    const result = await this.client.validateSession(sessionId);
+    const result = await this.client.validateSession(sessionId || '', {
+      rememberCookie,
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+    });
 
     if (!result.valid) {
       return false;
@@ -13,8 +13,9 @@ export function createNextJsMiddleware(client: LaravelSessionClient) {
     next: () => void
   ) => {
     const sessionId = req.cookies[client.getSessionCookieName()];
+    const rememberCookie = req.cookies[client.getRememberCookieName()];
 
-    if (!sessionId) {
+    if (!sessionId && !rememberCookie) {
       return res.status(401).json({
         error: 'Unauthorized',
         message: 'No session cookie found',
@@ -22,7 +23,11 @@ export function createNextJsMiddleware(client: LaravelSessionClient) {
     }
 
     try {
-      const result = await client.validateSession(sessionId);
+      const result = await client.validateSession(sessionId || '', {
+        rememberCookie,
+        ipAddress: req.socket?.remoteAddress,
+        userAgent: req.headers['user-agent'],
+      });
 
       if (!result.valid) {
         return res.status(401).json({
@@ -53,13 +58,18 @@ export async function validateNextJsSession(
   client: LaravelSessionClient
 ): Promise<SessionValidationResult> {
   const sessionId = req.cookies[client.getSessionCookieName()];
+  const rememberCookie = req.cookies[client.getRememberCookieName()];
 
-  if (!sessionId) {
+  if (!sessionId && !rememberCookie) {
     return {
       valid: false,
       error: 'No session cookie found',
     };
   }
 
-  return client.validateSession(sessionId);
+  return client.validateSession(sessionId || '', {
+    rememberCookie,
+    ipAddress: req.socket?.remoteAddress,
+    userAgent: req.headers['user-agent'],
+  });
 }
@@ -0,0 +1,175 @@
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { LaravelSessionClient } from '../LaravelSessionClient';
+import { MemoryStore } from '../stores/MemoryStore';
+import { buildSession } from '../testing/fixtures';
+import { SessionFixture } from '../types';
+import {
+  createSocketIoMiddleware,
+  createWebSocketAuthenticator,
+  validateUpgradeRequest,
+} from './websocket';
+
+const appKey = `base64:${crypto.randomBytes(32).toString('base64')}`;
+
+const cookieHeader = (session: SessionFixture) =>
+  `theme=dark; laravel_session=${encodeURIComponent(session.cookieValue)}`;
+
+const socketIoSocket = (cookie: string, userAgent = 'Browser') => ({
+  handshake: { headers: { cookie, 'user-agent': userAgent }, address: '10.0.0.1' },
+  data: {} as any,
+  disconnect: jest.fn(),
+  once: jest.fn(),
+});
+
+const upgradeRequest = (cookie: string) =>
+  ({
+    headers: { cookie, 'user-agent': 'Browser' },
+    socket: { remoteAddress: '10.0.0.1' },
+  }) as unknown as IncomingMessage;
+
+describe('WebSocket adapters', () => {
+  let store: MemoryStore;
+  let client: LaravelSessionClient;
+
+  const login = async (userId: number) => {
+    const session = buildSession(userId, { appKey, permissions: { role: 'Admin' } });
+    await store.writeSession(session.record);
+    return session;
+  };
+
+  beforeEach(() => {
+    store = new MemoryStore()
+      .addUser({ id: 1, email: 'one@example.com' })
+      .addUser({ id: 2, email: 'two@example.com' });
+    client = new LaravelSessionClient({ appKey, session: { driver: 'memory' }, store });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('validates upgrade requests from their cookies', async () => {
+    const session = await login(1);
+
+    expect(
+      await validateUpgradeRequest(client, upgradeRequest(cookieHeader(session)))
+    ).toMatchObject({
+      valid: true,
+      user: { id: 1 },
+    });
+    expect(await validateUpgradeRequest(client, upgradeRequest('theme=dark'))).toMatchObject({
+      valid: false,
+      error: 'No session cookie found',
+    });
+  });
+
+  describe('Socket.IO middleware', () => {
+    it('attaches the session of authenticated sockets', async () => {
+      const session = await login(1);
+      const socket = socketIoSocket(cookieHeader(session));
+      const next = jest.fn();
+
+      await createSocketIoMiddleware(client)(socket, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(socket.data.laravelSession).toMatchObject({ valid: true, user: { id: 1 } });
+    });
+
+    it('rejects sockets without a valid session', async () => {
+      const socket = socketIoSocket(cookieHeader(buildSession(1, { appKey })));
+      const next = jest.fn();
+
+      await createSocketIoMiddleware(client)(socket, next);
+
+      const error = next.mock.calls[0][0];
+      expect(error.message).toBe('Unauthorized');
+      expect(error.data).toMatchObject({ message: 'Session not found' });
+    });
+  });
+
+  describe('ws authenticator', () => {
+    it('closes sockets without a valid session with a policy violation', async () => {
+      const socket = { close: jest.fn(), once: jest.fn() };
+
+      const result = await createWebSocketAuthenticator(client)(
+        socket,
+        upgradeRequest(cookieHeader(buildSession(1, { appKey })))
+      );
+
+      expect(result.valid).toBe(false);
+      expect(socket.close).toHaveBeenCalledWith(1008, 'Unauthorized');
+    });
+  });
+
+  describe('revalidation', () => {
+    it('disconnects sockets whose session was destroyed', async () => {
+      jest.useFakeTimers();
+      const kept = await login(1);
+      const revoked = await login(2);
+      const onInvalid = jest.fn();
+      const middleware = createSocketIoMiddleware(client, { revalidateInterval: 1000, onInvalid });
+      const keptSocket = socketIoSocket(cookieHeader(kept));
+      const revokedSocket = socketIoSocket(cookieHeader(revoked));
+      await middleware(keptSocket, jest.fn());
+      await middleware(revokedSocket, jest.fn());
+
+      await store.destroySession(revoked.sessionId);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(keptSocket.disconnect).not.toHaveBeenCalled();
+      expect(revokedSocket.disconnect).toHaveBeenCalledWith(true);
+      expect(onInvalid).toHaveBeenCalledWith(
+        revokedSocket,
+        expect.objectContaining({ valid: false, error: 'Session not found' })
+      );
+    });
+
+    it('keeps revalidating other groups when one batch fails', async () => {
+      jest.useFakeTimers();
+      const failing = await login(1);
+      const revoked = await login(2);
+      const onError = jest.fn();
+      const middleware = createSocketIoMiddleware(client, { revalidateInterval: 1000, onError });
+      // Different user agents put the sockets in separate batches
+      const failingSocket = socketIoSocket(cookieHeader(failing), 'Browser A');
+      const revokedSocket = socketIoSocket(cookieHeader(revoked), 'Browser B');
+      await middleware(failingSocket, jest.fn());
+      await middleware(revokedSocket, jest.fn());
+
+      await store.destroySession(revoked.sessionId);
+      jest.spyOn(client, 'validateSessions').mockRejectedValueOnce(new Error('Connection lost'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Connection lost' }));
+      expect(failingSocket.disconnect).not.toHaveBeenCalled();
+      expect(revokedSocket.disconnect).toHaveBeenCalledWith(true);
+    });
+    it('disconnects sockets and keeps revalidating when onInvalid throws', async () => {
+      jest.useFakeTimers();
+      const first = await login(1);
+      const second = await login(2);
+      const onError = jest.fn();
+      const middleware = createSocketIoMiddleware(client, {
+        revalidateInterval: 1000,
+        onInvalid: () => {
+          throw new Error('Hook failed');
+        },
+        onError,
+      });
+      const firstSocket = socketIoSocket(cookieHeader(first));
+      const secondSocket = socketIoSocket(cookieHeader(second));
+      await middleware(firstSocket, jest.fn());
+      await middleware(secondSocket, jest.fn());
+
+      await store.destroySession(first.sessionId);
+      await store.destroySession(second.sessionId);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(firstSocket.disconnect).toHaveBeenCalledWith(true);
+      expect(secondSocket.disconnect).toHaveBeenCalledWith(true);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Hook failed' }));
+    });
+  });
+});
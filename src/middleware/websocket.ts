@@ -0,0 +1,312 @@
+import { IncomingHttpHeaders, IncomingMessage } from 'http';
+import { LaravelSessionClient } from '../LaravelSessionClient';
+import { SessionValidationResult, ValidationRequest } from '../types';
+import { parseCookies } from '../utils/cookies';
+
+/**
+ * The parts of a Socket.IO server socket the adapter uses (no socket.io dependency needed)
+ */
+export interface SocketIoSocketLike {
+  handshake: { headers: IncomingHttpHeaders; address: string };
+  data: any;
+  disconnect(close?: boolean): unknown;
+  once(event: 'disconnect', listener: () => void): unknown;
+}
+
+/**
+ * The parts of a `ws` WebSocket the adapter uses (no ws dependency needed)
+ */
+export interface WebSocketLike {
+  laravelSession?: SessionValidationResult;
+  close(code?: number, reason?: string): void;
+  once(event: 'close', listener: () => void): unknown;
+}
+
+export interface WebSocketAuthOptions<Socket> {
+  /**
+   * Re-validate connected sockets every this many milliseconds and disconnect the ones whose
+   * session expired or was invalidated (disabled when omitted or 0)
+   */
+  revalidateInterval?: number;
+
+  /**
+   * Called before a socket is disconnected because its session is no longer valid
+   */
+  onInvalid?: (socket: Socket, result: SessionValidationResult) => void;
+
+  /**
+   * Called when re-validation fails (e.g. the database is down); sockets stay connected
+   * Also receives errors thrown by onInvalid, after the socket was disconnected
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * WebSocket close codes for rejected sessions and validation errors
+ */
+const POLICY_VIOLATION = 1008;
+const INTERNAL_ERROR = 1011;
+
+interface SocketCredentials {
+  sessionCookie: string;
+  rememberCookie?: string;
+  request: ValidationRequest;
+}
+
+/**
+ * Validate the session cookie (or remember cookie) of a WebSocket upgrade request
+ */
+export async function validateUpgradeRequest(
+  client: LaravelSessionClient,
+  request: IncomingMessage
+): Promise<SessionValidationResult> {
+  return validateCredentials(
+    client,
+    getCredentials(client, request.headers, request.socket?.remoteAddress)
+  );
+}
+
+function getCredentials(
+  client: LaravelSessionClient,
+  headers: IncomingHttpHeaders,
+  ipAddress?: string
+): SocketCredentials {
+  const cookies = parseCookies(headers.cookie);
+
+  return {
+    sessionCookie: cookies[client.getSessionCookieName()] || '',
+    rememberCookie: cookies[client.getRememberCookieName()],
+    request: { ipAddress, userAgent: headers['user-agent'] },
+  };
+}
+
+async function validateCredentials(
+  client: LaravelSessionClient,
+  credentials: SocketCredentials
+): Promise<SessionValidationResult> {
+  if (!credentials.sessionCookie && !credentials.rememberCookie) {
+    return {
+      valid: false,
+      error: 'No session cookie found',
+    };
+  }
+
+  return client.validateSession(credentials.sessionCookie, {
+    rememberCookie: credentials.rememberCookie,
+    ...credentials.request,
+  });
+}
+
+/**
+ * Periodically re-validates the sessions of connected sockets
+ * Sockets are validated in batches (validateSessions), one batch per IP address and user agent
+ */
+class SessionRevalidator<Socket> {
+  private sockets = new Map<Socket, SocketCredentials>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private client: LaravelSessionClient,
+    private interval: number,
+    private onValid: (socket: Socket, result: SessionValidationResult) => void,
+    private onInvalid: (socket: Socket, result: SessionValidationResult) => void,
+    private onError?: (error: Error) => void
+  ) {}
+
+  add(socket: Socket, credentials: SocketCredentials): void {
+    this.sockets.set(socket, credentials);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.revalidate(), this.interval);
+      // Don't keep the process alive just to re-validate
+      this.timer.unref();
+    }
+  }
+
+  delete(socket: Socket): void {
+    this.sockets.delete(socket);
+
+    if (this.sockets.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async revalidate(): Promise<void> {
+    // Skip a tick rather than overlap a slow run
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const groups = new Map<string, Array<[Socket, SocketCredentials]>>();
+      for (const [socket, credentials] of this.sockets) {
+        const key = `${credentials.request.ipAddress || ''}|${credentials.request.userAgent || ''}`;
+        groups.set(key, [...(groups.get(key) || []), [socket, credentials]]);
+      }
+
+      // A failing batch (e.g. a transient database error) doesn't hold back the other groups
+      for (const group of groups.values()) {
+        try {
+          await this.revalidateGroup(group);
+        } catch (error: any) {
+          this.onError?.(error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async revalidateGroup(group: Array<[Socket, SocketCredentials]>): Promise<void> {
+    const results = await this.client.validateSessions(
+      group.map(([, credentials]) => credentials.sessionCookie),
+      group[0][1].request
+    );
+
+    for (const [socket, credentials] of group) {
+      // Skip sockets that disconnected while the batch was running
+      if (!this.sockets.has(socket)) {
+        continue;
+      }
+
+      let result = results.get(credentials.sessionCookie) || {
+        valid: false,
+        error: 'Session not found',
+      };
+
+      // Same fallback as validateSession: only unauthenticated sessions use the remember cookie
+      if (!result.valid && !result.reason && credentials.rememberCookie) {
+        const rememberResult = await this.client.validateRememberCookie(
+          credentials.rememberCookie,
+          credentials.request
+        );
+        result = rememberResult.valid ? rememberResult : result;
+      }
+
+      if (result.valid) {
+        this.onValid(socket, result);
+      } else {
+        this.delete(socket);
+        // A throwing onInvalid hook must not skip the other sockets of the group
+        try {
+          this.onInvalid(socket, result);
+        } catch (error: any) {
+          this.onError?.(error);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Socket.IO middleware: `io.use(createSocketIoMiddleware(client))`
+ * Attaches the validation result to `socket.data.laravelSession`; rejected connections get a
+ * connect_error with `data: { reason }`
+ */
+export function createSocketIoMiddleware(
+  client: LaravelSessionClient,
+  options: WebSocketAuthOptions<SocketIoSocketLike> = {}
+) {
+  const revalidator = options.revalidateInterval
+    ? new SessionRevalidator<SocketIoSocketLike>(
+        client,
+        options.revalidateInterval,
+        (socket, result) => {
+          socket.data.laravelSession = result;
+        },
+        (socket, result) => {
+          try {
+            options.onInvalid?.(socket, result);
+          } finally {
+            socket.disconnect(true);
+          }
+        },
+        options.onError
+      )
+    : undefined;
+
+  return async (socket: SocketIoSocketLike, next: (error?: Error) => void) => {
+    const credentials = getCredentials(client, socket.handshake.headers, socket.handshake.address);
+
+    try {
+      const result = await validateCredentials(client, credentials);
+
+      if (!result.valid) {
+        const error: Error & { data?: any } = new Error('Unauthorized');
+        error.data = { message: result.error, reason: result.reason };
+        return next(error);
+      }
+
+      socket.data.laravelSession = result;
+
+      if (revalidator) {
+        revalidator.add(socket, credentials);
+        socket.once('disconnect', () => revalidator.delete(socket));
+      }
+
+      return next();
+    } catch (error: any) {
+      return next(error);
+    }
+  };
+}
+
+/**
+ * Authenticator for `ws` connections, called from the server's connection handler:
+ * `const session = await authenticate(ws, request)`
+ * Attaches the validation result to `ws.laravelSession`; rejected sockets are closed with code 1008
+ */
+export function createWebSocketAuthenticator(
+  client: LaravelSessionClient,
+  options: WebSocketAuthOptions<WebSocketLike> = {}
+) {
+  const revalidator = options.revalidateInterval
+    ? new SessionRevalidator<WebSocketLike>(
+        client,
+        options.revalidateInterval,
+        (socket, result) => {
+          socket.laravelSession = result;
+        },
+        (socket, result) => {
+          try {
+            options.onInvalid?.(socket, result);
+          } finally {
+            socket.close(POLICY_VIOLATION, result.reason || 'Unauthorized');
+          }
+        },
+        options.onError
+      )
+    : undefined;
+
+  return async (
+    socket: WebSocketLike,
+    request: IncomingMessage
+  ): Promise<SessionValidationResult> => {
+    const credentials = getCredentials(client, request.headers, request.socket?.remoteAddress);
+
+    let result: SessionValidationResult;
+    try {
+      result = await validateCredentials(client, credentials);
+    } catch (error: any) {
+      socket.close(INTERNAL_ERROR, 'Internal Server Error');
+      throw error;
+    }
+
+    if (!result.valid) {
+      socket.close(POLICY_VIOLATION, result.reason || 'Unauthorized');
+      return result;
+    }
+
+    socket.laravelSession = result;
+
+    if (revalidator) {
+      revalidator.add(socket, credentials);
+      socket.once('close', () => revalidator.delete(socket));
+    }
+
+    return result;
+  };
+}
@@ -1,2 +1,3 @@
 // Redis store export - requires 'redis' peer dependency
 export { RedisStore } from './stores/RedisStore';
+export { RedisValidationCache } from './cache/RedisValidationCache';
@@ -0,0 +1,323 @@
+import * as crypto from 'crypto';
+import { LaravelSessionClient } from '../LaravelSessionClient';
+import { buildSession } from '../testing/fixtures';
+import { LaravelUser, SessionFixture, UserProviderConfig } from '../types';
+import { DatabaseStore } from './DatabaseStore';
+import { DatabaseDialect } from './dialects/DatabaseDialect';
+
+/**
+ * Dialect answering from fixtures and recording every query it runs
+ */
+class CountingDialect implements DatabaseDialect {
+  readonly name = 'mysql';
+  queries: string[] = [];
+  sessions: SessionFixture[] = [];
+  users: LaravelUser[] = [];
+  permissionTables = true;
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    this.queries.push(sql);
+    const ids = params.map(String);
+
+    if (/FROM sessions/.test(sql)) {
+      return this.sessions
+        .map(session => session.record)
+        .filter(record => ids.includes(record.id)) as T[];
+    }
+    if (/FROM users/.test(sql)) {
+      const users = this.users.filter(user => ids.includes(String(user.id)));
+      // Single column reads (remember token, password)
+      const column = /(\w+) as value FROM/.exec(sql)?.[1];
+      if (column) {
+        return users.map(user => ({ id: user.id, value: user[column] })) as T[];
+      }
+      // Columns read along with the user (remember token)
+      const extra = /(\w+) as column_value/.exec(sql)?.[1];
+      return (extra ? users.map(user => ({ ...user, column_value: user[extra] })) : users) as T[];
+    }
+    if (!this.permissionTables) {
+      throw new Error("Table 'app.user_roles' doesn't exist");
+    }
+    if (/FROM user_roles/.test(sql)) {
+      return [{ id: 1, role_name: 'Admin' }] as T[];
+    }
+    return [];
+  }
+
+  async execute(): Promise<number> {
+    return 0;
+  }
+
+  concat(...expressions: string[]): string {
+    return `CONCAT(${expressions.join(', ')})`;
+  }
+
+  async close(): Promise<void> {}
+}
+
+const dialect = new CountingDialect();
+
+jest.mock('./dialects/DatabaseDialect', () => ({
+  ...jest.requireActual('./dialects/DatabaseDialect'),
+  createDialect: () => dialect,
+}));
+
+const appKey = `base64:${crypto.randomBytes(32).toString('base64')}`;
+
+const database = {
+  type: 'mysql' as const,
+  host: 'localhost',
+  user: 'app',
+  password: '',
+  database: 'app',
+};
+
+describe('DatabaseStore query count', () => {
+  const client = new LaravelSessionClient({ appKey, session: { driver: 'database' }, database });
+
+  const validate = async (
+    options: Parameters<typeof buildSession>[1] = {},
+    validator: LaravelSessionClient = client
+  ) => {
+    const session = buildSession(1, { appKey, ...options });
+    dialect.sessions = [session];
+    dialect.queries = [];
+    const result = await validator.validateSession(session.cookieValue);
+    return { result, queries: dialect.queries };
+  };
+
+  beforeEach(() => {
+    dialect.users = [{ id: 1, email: 'user@example.com' }];
+    dialect.permissionTables = true;
+  });
+
+  it('reads the session and the user once when the payload has permissions', async () => {
+    const { result, queries } = await validate({ permissions: { role: 'Editor', modules: [] } });
+
+    expect(result).toMatchObject({ valid: true, role: 'Editor' });
+    expect(queries).toHaveLength(2);
+  });
+
+  it('does not query the role when the payload permissions have none', async () => {
+    const { result, queries } = await validate({ permissions: { modules: [] } });
+
+    expect(result.valid).toBe(true);
+    expect(result.role).toBeUndefined();
+    expect(queries).toHaveLength(2);
+  });
+
+  it('loads the role with the database permissions', async () => {
+    const { result, queries } = await validate();
+
+    expect(result).toMatchObject({ valid: true, role: 'Admin' });
+    // Session, user, then roles, modules and links
+    expect(queries).toHaveLength(5);
+  });
+
+  it('does not repeat the permission lookup when the database permissions have no role', async () => {
+    const resolver = jest.fn().mockResolvedValue({ modules: [] });
+    const custom = new LaravelSessionClient({
+      appKey,
+      session: { driver: 'database' },
+      database: { ...database, permissions: { source: 'custom', resolver } },
+    });
+
+    const { result, queries } = await validate({}, custom);
+
+    expect(result).toMatchObject({ valid: true, permissions: { modules: [] } });
+    expect(result.role).toBeUndefined();
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(queries).toHaveLength(2);
+  });
+
+  it('reads the password hash of the loaded user with one query', async () => {
+    dialect.users = [{ id: 1, email: 'user@example.com', password: '$2y$12$current' }];
+    const checking = new LaravelSessionClient({
+      appKey,
+      session: { driver: 'database' },
+      database,
+      validatePasswordHash: true,
+    });
+
+    const { result, queries } = await validate(
+      { permissions: { role: 'Editor' }, data: { password_hash_web: '$2y$12$current' } },
+      checking
+    );
+
+    expect(result.valid).toBe(true);
+    // Session, user, then the password column
+    expect(queries).toHaveLength(3);
+    expect(queries[2]).toMatch(/^SELECT password as value FROM users/);
+  });
+
+  it('reads the remember token with the user and does not fetch the user again', async () => {
+    const token = 'a'.repeat(60);
+    dialect.users = [{ id: 1, email: 'user@example.com', remember_token: token }];
+    dialect.sessions = [];
+    dialect.queries = [];
+
+    const result = await client.validateRememberCookie(
+      client.encryptCookie(client.getRememberCookieName(), `1|${token}|hash`)
+    );
+
+    expect(result).toMatchObject({ valid: true, viaRemember: true, role: 'Admin' });
+    expect(result.user).not.toHaveProperty('column_value');
+    // User and token, then roles, modules and links
+    expect(dialect.queries).toHaveLength(4);
+  });
+
+  it('validates without permission tables', async () => {
+    dialect.permissionTables = false;
+
+    const { result, queries } = await validate();
+
+    expect(result).toMatchObject({ valid: true, permissions: null });
+    expect(result.role).toBeUndefined();
+    expect(queries).toHaveLength(3);
+  });
+});
+
+describe('DatabaseStore batch validation', () => {
+  const client = new LaravelSessionClient({ appKey, session: { driver: 'database' }, database });
+
+  beforeEach(() => {
+    dialect.permissionTables = true;
+  });
+
+  it('reads all sessions and users with one query each', async () => {
+    dialect.users = [
+      { id: 1, email: 'one@example.com' },
+      { id: 2, email: 'two@example.com' },
+    ];
+    dialect.sessions = [1, 2].map(userId =>
+      buildSession(userId, { appKey, permissions: { role: 'Editor' } })
+    );
+    dialect.queries = [];
+
+    const results = await client.validateSessions(dialect.sessions.map(s => s.cookieValue));
+
+    expect(Array.from(results.values(), result => result.user?.email)).toEqual([
+      'one@example.com',
+      'two@example.com',
+    ]);
+    expect(dialect.queries).toHaveLength(2);
+  });
+
+  it('reads the password hashes of a batch with one query', async () => {
+    dialect.users = [
+      { id: 1, email: 'one@example.com', password: 'hash-1' },
+      { id: 2, email: 'two@example.com', password: 'hash-2' },
+    ];
+    dialect.sessions = [
+      buildSession(1, { appKey, permissions: {}, data: { password_hash_web: 'hash-1' } }),
+      buildSession(2, { appKey, permissions: {}, data: { password_hash_web: 'old-hash' } }),
+    ];
+    dialect.queries = [];
+    const checking = new LaravelSessionClient({
+      appKey,
+      session: { driver: 'database' },
+      database,
+      validatePasswordHash: true,
+    });
+
+    const results = await checking.validateSessions(dialect.sessions.map(s => s.cookieValue));
+
+    expect(Array.from(results.values(), result => result.reason ?? 'valid')).toEqual([
+      'valid',
+      'password_changed',
+    ]);
+    // Sessions, users, then the password column of both users
+    expect(dialect.queries).toHaveLength(3);
+  });
+
+  it('matches users with string primary keys', async () => {
+    const uuid = '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d';
+    dialect.users = [{ id: uuid as any, email: 'uuid@example.com' }];
+    dialect.sessions = [buildSession(uuid as any, { appKey, permissions: { role: 'Editor' } })];
+
+    const results = await client.validateSessions([dialect.sessions[0].cookieValue]);
+
+    expect(Array.from(results.values())).toEqual([
+      expect.objectContaining({ valid: true, user: expect.objectContaining({ id: uuid }) }),
+    ]);
+  });
+
+  it('matches numeric IDs returned as strings', async () => {
+    dialect.users = [{ id: '7' as any, email: 'seven@example.com' }];
+    dialect.sessions = [buildSession(7, { appKey, permissions: { role: 'Editor' } })];
+
+    const results = await client.validateSessions([dialect.sessions[0].cookieValue]);
+
+    expect(Array.from(results.values())[0]).toMatchObject({ valid: true });
+  });
+});
+
+describe('DatabaseStore users table mapping', () => {
+  const userQuery = async (users: UserProviderConfig) => {
+    dialect.queries = [];
+    await new DatabaseStore({ ...database, users }).getUser(1);
+    return dialect.queries[0];
+  };
+
+  it("reads Laravel's users table by default", async () => {
+    expect(await userQuery({})).toBe(
+      "SELECT id, CONCAT(first_name, ' ', COALESCE(middle_name, ''), ' ', COALESCE(last_name, '')) as name, " +
+        'email, first_name, middle_name, last_name, google2fa_enable, created_at, updated_at ' +
+        'FROM users WHERE id = ? AND deleted_at IS NULL LIMIT 1'
+    );
+  });
+
+  it('maps the table, primary key, columns and name column', async () => {
+    const sql = await userQuery({
+      table: 'members',
+      primaryKey: 'uuid',
+      columns: ['email', 'name'],
+      name: 'name',
+      softDeleteColumn: false,
+    });
+
+    expect(sql).toBe('SELECT uuid as id, name as name, email FROM members WHERE uuid = ? LIMIT 1');
+  });
+
+  it('skips the name when it is disabled', async () => {
+    const sql = await userQuery({
+      columns: ['email', 'name'],
+      name: false,
+      softDeleteColumn: 'removed_at',
+    });
+
+    expect(sql).toBe(
+      'SELECT id, email, name FROM users WHERE id = ? AND removed_at IS NULL LIMIT 1'
+    );
+  });
+
+  it('runs custom queries with the user ID', async () => {
+    const query = 'SELECT id, email FROM users WHERE id = ? AND active = 1';
+    dialect.users = [{ id: 1, email: 'user@example.com' }];
+    dialect.queries = [];
+
+    const user = await new DatabaseStore({ ...database, users: { query } }).getUser(1);
+
+    expect(user).toEqual({ id: 1, email: 'user@example.com' });
+    expect(dialect.queries).toEqual([query]);
+  });
+
+  it('passes the user ID and a query function to resolvers', async () => {
+    const resolver = jest.fn(async (userId: number, query) => {
+      const [row] = await query('SELECT id, email FROM users WHERE id = ?', [userId]);
+      return row ? { ...row, name: 'Resolved' } : null;
+    });
+    dialect.users = [{ id: 1, email: 'user@example.com' }];
+
+    const user = await new DatabaseStore({ ...database, users: { resolver } }).getUser(1);
+
+    expect(resolver).toHaveBeenCalledWith(1, expect.any(Function));
+    expect(user).toEqual({ id: 1, email: 'user@example.com', name: 'Resolved' });
+  });
+
+  it('rejects invalid identifiers when the store is created', () => {
+    expect(
+      () => new DatabaseStore({ ...database, users: { table: 'users; DROP TABLE users' } })
+    ).toThrow('Invalid identifier in users configuration: users; DROP TABLE users');
+  });
+});
@@ -1,20 +1,48 @@
-import { Pool, createPool, RowDataPacket } from 'mysql2/promise';
 import { StoreInterface } from './StoreInterface';
-import { SessionRecord, LaravelUser, LaravelSessionConfig } from '../types';
-import { sanitizeSessionId, sanitizeError } from '../utils/SecurityUtils';
+import { DatabaseDialect, createDialect, sqlIdentifier } from './dialects/DatabaseDialect';
+import { PermissionResolver, createPermissionResolver } from './permissions/PermissionResolver';
+import { SessionRecord, LaravelUser, LaravelSessionConfig, UserProviderConfig } from '../types';
+import { hashEquals, sanitizeSessionId, sanitizeError } from '../utils/SecurityUtils';
+
+const DEFAULT_USER_COLUMNS = [
+  'email',
+  'first_name',
+  'middle_name',
+  'last_name',
+  'google2fa_enable',
+  'created_at',
+  'updated_at',
+];
+const DEFAULT_NAME_COLUMNS = ['first_name', 'middle_name', 'last_name'];
+
+/**
+ * Most IDs per `IN (...)` query, well below MySQL's and PostgreSQL's placeholder limits
+ */
+const BATCH_SIZE = 1000;
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    chunks.push(items.slice(i, i + BATCH_SIZE));
+  }
+  return chunks;
+}
+
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
 
 export class DatabaseStore implements StoreInterface {
-  private pool: Pool;
+  private db: DatabaseDialect;
   private sessionTable: string;
-  private appKey?: string;
-  private permissionsKey?: string | string[];
+  private userProvider: UserProviderConfig;
+  private userQueries = new Map<UserProviderConfig, string>();
+  private permissionResolver: PermissionResolver;
   private debug: boolean;
 
   constructor(
     config: LaravelSessionConfig['database'], 
     sessionTable = 'sessions',
-    appKey?: string,
-    permissionsKey?: string | string[],
     debug: boolean = false
   ) {
     if (!config) {
@@ -22,20 +50,72 @@ export class DatabaseStore implements StoreInterface {
     }
 
     this.sessionTable = sessionTable;
-    this.appKey = appKey;
-    this.permissionsKey = permissionsKey;
     this.debug = debug;
     
-    this.pool = createPool({
-      host: config.host,
-      port: config.port || 3306,
-      user: config.user,
-      password: config.password,
-      database: config.database,
-      waitForConnections: true,
-      connectionLimit: config.connectionLimit || 10,
-      queueLimit: 0,
-    });
+    this.db = createDialect(config);
+    this.userProvider = config.users || {};
+    if (!this.userProvider.resolver) {
+      // Build the default query up front so configuration errors surface immediately
+      this.getUserQuery(this.userProvider);
+    }
+    this.permissionResolver = createPermissionResolver(config.permissions);
+  }
+
+  private getUserQuery(provider: UserProviderConfig): string {
+    let sql = this.userQueries.get(provider);
+    if (!sql) {
+      sql = this.buildUserQuery(provider);
+      this.userQueries.set(provider, sql);
+    }
+    return sql;
+  }
+
+  /**
+   * Build the user lookup SQL from the provider mapping
+   * @param count - Number of user IDs to look up (`IN (...)` when more than one)
+   * @param extraColumn - Column to read along with the user, selected as `column_value`
+   */
+  private buildUserQuery(
+    provider: UserProviderConfig,
+    count: number = 1,
+    extraColumn?: string
+  ): string {
+    if (provider.query) {
+      return provider.query;
+    }
+
+    const identifier = (name: string) => sqlIdentifier(name, 'users');
+    const table = identifier(provider.table || 'users');
+    const primaryKey = identifier(provider.primaryKey || 'id');
+    const columns = (provider.columns || DEFAULT_USER_COLUMNS).map(identifier);
+    const select = [primaryKey === 'id' ? 'id' : `${primaryKey} as id`];
+
+    const name = provider.name ?? DEFAULT_NAME_COLUMNS;
+    if (typeof name === 'string') {
+      select.push(`${identifier(name)} as name`);
+    } else if (name) {
+      // Optional parts are COALESCEd so a missing middle/last name doesn't null the whole name
+      const parts = name.map((column, index) =>
+        index === 0 ? identifier(column) : `COALESCE(${identifier(column)}, '')`
+      );
+      const separated = parts.flatMap((part, index) => (index === 0 ? [part] : ["' '", part]));
+      select.push(`${this.db.concat(...separated)} as name`);
+    }
+
+    // Skip columns already selected under the same alias
+    select.push(...columns.filter(column => column !== 'id' && (!name || column !== 'name')));
+    if (extraColumn) {
+      select.push(`${identifier(extraColumn)} as column_value`);
+    }
+
+    const conditions = [count === 1 ? `${primaryKey} = ?` : `${primaryKey} IN (${placeholders(count)})`];
+    const softDeleteColumn = provider.softDeleteColumn ?? 'deleted_at';
+    if (softDeleteColumn) {
+      conditions.push(`${identifier(softDeleteColumn)} IS NULL`);
+    }
+
+    const sql = `SELECT ${select.join(', ')} FROM ${table} WHERE ${conditions.join(' AND ')}`;
+    return count === 1 ? `${sql} LIMIT 1` : sql;
   }
 
   private log(...args: any[]): void {
@@ -56,7 +136,7 @@ export class DatabaseStore implements StoreInterface {
       this.log('📋 Table:', this.sessionTable);
       this.log('🆔 Session ID:', sanitizeSessionId(sessionId));
       
-      const [rows] = await this.pool.execute<RowDataPacket[]>(
+      const rows = await this.db.query(
         `SELECT * FROM ${this.sessionTable} WHERE id = ? LIMIT 1`,
         [sessionId]
       );
@@ -67,7 +147,7 @@ export class DatabaseStore implements StoreInterface {
         
         // Check table existence and count
         try {
-          const [countRows] = await this.pool.execute<RowDataPacket[]>(
+          const countRows = await this.db.query(
             `SELECT COUNT(*) as total FROM ${this.sessionTable}`
           );
           this.log('📊 Total sessions in table:', (countRows[0] as any).total);
@@ -89,157 +169,238 @@ export class DatabaseStore implements StoreInterface {
     }
   }
 
-  async getUser(userId: number): Promise<LaravelUser | null> {
+  async getSessions(sessionIds: string[]): Promise<Map<string, SessionRecord>> {
     try {
-      const [rows] = await this.pool.execute<RowDataPacket[]>(
-        `SELECT
-          id,
-          email,
-          CONCAT(first_name, ' ', COALESCE(middle_name, ''), ' ', COALESCE(last_name, '')) as name,
-          first_name,
-          middle_name,
-          last_name,
-          google2fa_enable,
-          created_at,
-          updated_at
-        FROM users
-        WHERE id = ? AND deleted_at IS NULL
-        LIMIT 1`,
-        [userId]
-      );
+      this.log('🔍 Fetching', sessionIds.length, 'sessions from database...');
 
-      return rows.length > 0 ? (rows[0] as LaravelUser) : null;
+      const sessions = new Map<string, SessionRecord>();
+      for (const ids of chunk(sessionIds)) {
+        const rows = await this.db.query<SessionRecord>(
+          `SELECT * FROM ${this.sessionTable} WHERE id IN (${placeholders(ids.length)})`,
+          ids
+        );
+        for (const row of rows) {
+          sessions.set(row.id, row);
+        }
+      }
+
+      this.log('✅ Sessions found:', sessions.size);
+      return sessions;
     } catch (error: any) {
-      throw new Error(`Failed to get user: ${error.message}`);
+      this.logError('❌ Failed to get sessions:', sanitizeError(error));
+      throw new Error(`Failed to get sessions: ${sanitizeError(error)}`);
     }
   }
 
-  async getUserRole(userId: number): Promise<string | null> {
+  async getUsers(
+    userIds: number[],
+    provider: UserProviderConfig = this.userProvider
+  ): Promise<Map<number, LaravelUser>> {
+    const users = new Map<number, LaravelUser>();
+
+    // Custom queries and resolvers look up one user at a time
+    if (provider.query || provider.resolver) {
+      for (const userId of userIds) {
+        const user = await this.getUser(userId, provider);
+        if (user) {
+          users.set(userId, user);
+        }
+      }
+      return users;
+    }
+
     try {
-      // Get role from the user's session payload instead of separate tables
-      const permissions = await this.getUserPermissions(userId);
-      return permissions?.role || null;
+      for (const ids of chunk(userIds)) {
+        // Rows are keyed by the requested ID, like getUser: string keys (UUIDs) stay strings and
+        // drivers returning numeric IDs as strings still match
+        const requested = new Map(ids.map(id => [String(id), id]));
+        const rows = await this.db.query<LaravelUser>(this.buildUserQuery(provider, ids.length), ids);
+        for (const row of rows) {
+          const userId = requested.get(String(row.id));
+          if (userId !== undefined) {
+            users.set(userId, row);
+          }
+        }
+      }
+      return users;
     } catch (error: any) {
-      throw new Error(`Failed to get user role: ${error.message}`);
+      throw new Error(`Failed to get users: ${error.message}`);
     }
   }
 
-  async getUserPermissions(userId: number): Promise<any> {
+  async getUser(
+    userId: number,
+    provider: UserProviderConfig = this.userProvider
+  ): Promise<LaravelUser | null> {
     try {
-      this.log('🔍 Fetching permissions from session for user:', userId);
-      
-      // Find the user's active session by looking for login_web_* in payload
-      // We need to search for sessions that contain this user's ID
-      const [rows] = await this.pool.execute<RowDataPacket[]>(
-        `SELECT payload, last_activity 
-         FROM ${this.sessionTable}
-         WHERE user_id = ?
-         ORDER BY last_activity DESC
-         LIMIT 1`,
-        [userId]
-      );
-
-      if (rows.length === 0) {
-        this.log('⚠️  No active session found for user:', userId);
-        return null;
+      if (provider.resolver) {
+        return await provider.resolver(userId, (sql, params) => this.db.query(sql, params));
       }
 
-      const session = rows[0] as any;
-      this.log('✅ Found session for user, decoding payload...');
+      const rows = await this.db.query(this.getUserQuery(provider), [userId]);
 
-      // Import SessionDecoder here to avoid circular dependency
-      const { SessionDecoder } = await import('../decoders/SessionDecoder');
-      const decoder = new SessionDecoder(this.appKey, this.permissionsKey, this.debug);
+      return rows.length > 0 ? (rows[0] as LaravelUser) : null;
+    } catch (error: any) {
+      throw new Error(`Failed to get user: ${error.message}`);
+    }
+  }
 
-      // Decode the session payload
-      const sessionData = decoder.decode(session.payload);
-      
-      if (!sessionData) {
-        this.log('❌ Failed to decode session payload');
+  /**
+   * Read a column of a user that isn't part of the returned user (remember token, password)
+   * Custom query/resolver providers must include it in the user they return
+   */
+  private async getUserColumn(
+    user: LaravelUser,
+    provider: UserProviderConfig,
+    column: string
+  ): Promise<any> {
+    if (provider.query || provider.resolver) {
+      return user[column];
+    }
+
+    const identifier = (name: string) => sqlIdentifier(name, 'users');
+    const table = identifier(provider.table || 'users');
+    const primaryKey = identifier(provider.primaryKey || 'id');
+    const rows = await this.db.query(
+      `SELECT ${identifier(column)} as value FROM ${table} WHERE ${primaryKey} = ? LIMIT 1`,
+      [user.id]
+    );
+
+    return rows[0]?.value;
+  }
+
+  async getUserByRememberToken(
+    userId: number,
+    token: string,
+    provider: UserProviderConfig = this.userProvider
+  ): Promise<LaravelUser | null> {
+    try {
+      const column = provider.rememberTokenColumn || 'remember_token';
+      let user: LaravelUser | null;
+      let rememberToken: any;
+
+      if (provider.query || provider.resolver) {
+        // Custom query/resolver providers include the token in the user they return
+        user = await this.getUser(userId, provider);
+        rememberToken = user?.[column];
+      } else {
+        // The token is read in the same query as the user and left out of the returned user
+        const rows = await this.db.query(this.buildUserQuery(provider, 1, column), [userId]);
+        const { column_value, ...row } = rows[0] || {};
+        user = rows.length > 0 ? (row as LaravelUser) : null;
+        rememberToken = column_value;
+      }
+
+      if (!user) {
         return null;
       }
 
-      this.log('✅ Session decoded, extracting permissions...');
+      if (typeof rememberToken !== 'string' || !rememberToken || !hashEquals(rememberToken, token)) {
+        this.log('❌ Remember token mismatch for user:', userId);
+        return null;
+      }
+
+      return user;
+    } catch (error: any) {
+      this.logError('❌ Failed to get user by remember token:', sanitizeError(error));
+      throw new Error(`Failed to get user by remember token: ${sanitizeError(error)}`);
+    }
+  }
+
+  async getUserPasswordHash(
+    user: LaravelUser,
+    provider: UserProviderConfig = this.userProvider
+  ): Promise<string | null> {
+    try {
+      const passwordHash = await this.getUserColumn(user, provider, provider.passwordColumn || 'password');
+      return typeof passwordHash === 'string' ? passwordHash : null;
+    } catch (error: any) {
+      this.logError('❌ Failed to get user password hash:', sanitizeError(error));
+      throw new Error(`Failed to get user password hash: ${sanitizeError(error)}`);
+    }
+  }
 
-      // Extract permissions from decoded session data
-      const permissions = decoder.getPermissions(sessionData);
+  async getUserPasswordHashes(
+    users: LaravelUser[],
+    provider: UserProviderConfig = this.userProvider
+  ): Promise<Map<number, string>> {
+    const column = provider.passwordColumn || 'password';
+    const hashes = new Map<number, string>();
 
-      if (permissions) {
-        this.log('✅ Permissions extracted from session payload');
-        this.log('📋 Role:', permissions.role);
-        this.log('📋 Modules:', permissions.modules?.length || 0);
-        this.log('📋 Links:', permissions.links?.length || 0);
-        return permissions;
+    try {
+      // Custom query/resolver providers include the hash in the users they return
+      if (provider.query || provider.resolver) {
+        for (const user of users) {
+          if (typeof user[column] === 'string') {
+            hashes.set(user.id, user[column]);
+          }
+        }
+        return hashes;
       }
 
-      // Fallback: If no permissions in session, fetch all permissions from database tables
-      this.log('⚠️  No permissions found in session payload');
-      this.log('🔄 Fetching all permissions from database as fallback...');
+      const identifier = (name: string) => sqlIdentifier(name, 'users');
+      const table = identifier(provider.table || 'users');
+      const primaryKey = identifier(provider.primaryKey || 'id');
 
-      return await this.getAllPermissionsFromDatabase(userId);
+      for (const batch of chunk(users)) {
+        const requested = new Map(batch.map(user => [String(user.id), user.id]));
+        const rows = await this.db.query(
+          `SELECT ${primaryKey} as id, ${identifier(column)} as value FROM ${table} WHERE ${primaryKey} IN (${placeholders(batch.length)})`,
+          batch.map(user => user.id)
+        );
+        for (const row of rows) {
+          const userId = requested.get(String(row.id));
+          if (userId !== undefined && typeof row.value === 'string') {
+            hashes.set(userId, row.value);
+          }
+        }
+      }
+      return hashes;
     } catch (error: any) {
-      this.logError('❌ Failed to get user permissions from session:', sanitizeError(error));
-      throw new Error(`Failed to get user permissions: ${sanitizeError(error)}`);
+      this.logError('❌ Failed to get user password hashes:', sanitizeError(error));
+      throw new Error(`Failed to get user password hashes: ${sanitizeError(error)}`);
     }
   }
 
+  async getUserRole(
+    userId: number,
+    provider: UserProviderConfig = this.userProvider
+  ): Promise<string | null> {
+    try {
+      const permissions = await this.getUserPermissions(userId, provider);
+      return permissions?.role || null;
+    } catch (error: any) {
+      throw new Error(`Failed to get user role: ${error.message}`);
+    }
+  }
+
+  async getUserPermissions(
+    userId: number,
+    provider: UserProviderConfig = this.userProvider
+  ): Promise<any> {
+    // Permission tables are keyed by users.id (Spatie also by the User model type), so the
+    // IDs of other providers (e.g. an admins table) would match unrelated users
+    if (provider !== this.userProvider) {
+      this.log('⚠️  No database permissions for custom guard providers');
+      return null;
+    }
+
+    this.log('🔍 Fetching permissions from database for user:', userId);
+    return this.getAllPermissionsFromDatabase(userId);
+  }
+
   /**
-   * Fetch all permissions from database tables (fallback method)
+   * Fetch roles and permissions with the configured permission resolver
    */
   private async getAllPermissionsFromDatabase(userId: number): Promise<any> {
     try {
       this.log('📊 Fetching all permissions from database tables...');
-      
-      // Get all roles for the user
-      const [roleRows] = await this.pool.execute<RowDataPacket[]>(
-        `SELECT r.id, r.role_name
-         FROM user_roles ur
-         JOIN roles r ON r.id = ur.role_id
-         WHERE ur.user_id = ?`,
-        [userId]
-      );
 
-      const roles = roleRows as any[];
-      const roleArr = roles.map(r => r.role_name);
-      const role = roleArr.length > 0 ? roleArr[0] : null;
-      
-      this.log('👤 User roles:', roleArr);
-
-      // Get modules (permissions) for the user
-      const [moduleRows] = await this.pool.execute<RowDataPacket[]>(
-        `SELECT DISTINCT m.id, m.module_name as name, m.url
-         FROM module_permissions mp
-         JOIN modules m ON m.id = mp.module_id
-         JOIN user_roles ur ON ur.role_id = mp.role_id
-         WHERE ur.user_id = ? AND m.deleted_at IS NULL AND mp.deleted_at IS NULL`,
-        [userId]
-      );
-
-      const modules = moduleRows as any[];
-      this.log('📋 User modules:', modules.length);
-
-      // Get links (sub-permissions) for the user
-      const [linkRows] = await this.pool.execute<RowDataPacket[]>(
-        `SELECT DISTINCT l.id, l.link_name as name, l.permission_module_id, l.url
-         FROM link_permissions lp
-         JOIN links l ON l.id = lp.link_id
-         JOIN user_roles ur ON ur.role_id = lp.role_id
-         WHERE ur.user_id = ? AND l.deleted_at IS NULL AND lp.deleted_at IS NULL`,
-        [userId]
-      );
-
-      const links = linkRows as any[];
-      this.log('🔗 User links:', links.length);
-
-      const permissions = {
-        role,
-        role_arr: roleArr,
-        modules,
-        links,
-      };
+      const permissions = await this.permissionResolver.resolve(userId, this.db);
 
+      this.log('👤 User role:', permissions?.role);
       this.log('✅ All permissions fetched from database');
-      
+
       return permissions;
     } catch (error: any) {
       this.logError('❌ Failed to get permissions from database:', error.message);
@@ -247,7 +408,78 @@ export class DatabaseStore implements StoreInterface {
     }
   }
 
+  async writeSession(session: SessionRecord): Promise<void> {
+    try {
+      this.log('💾 Writing session to database...');
+      this.log('🆔 Session ID:', sanitizeSessionId(session.id));
+
+      // Same strategy as Laravel's DatabaseSessionHandler: update, insert when missing
+      const updated = await this.db.execute(
+        `UPDATE ${this.sessionTable}
+         SET payload = ?, last_activity = ?, user_id = ?
+         WHERE id = ?`,
+        [session.payload, session.last_activity, session.user_id, session.id]
+      );
+
+      if (updated === 0) {
+        await this.db.execute(
+          `INSERT INTO ${this.sessionTable} (id, user_id, ip_address, user_agent, payload, last_activity)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            session.id,
+            session.user_id,
+            session.ip_address,
+            session.user_agent,
+            session.payload,
+            session.last_activity,
+          ]
+        );
+      }
+
+      this.log('✅ Session written');
+    } catch (error: any) {
+      this.logError('❌ Failed to write session:', sanitizeError(error));
+      throw new Error(`Failed to write session: ${sanitizeError(error)}`);
+    }
+  }
+
+  async touchSession(sessionId: string): Promise<void> {
+    try {
+      await this.db.execute(`UPDATE ${this.sessionTable} SET last_activity = ? WHERE id = ?`, [
+        Math.floor(Date.now() / 1000),
+        sessionId,
+      ]);
+    } catch (error: any) {
+      this.logError('❌ Failed to touch session:', sanitizeError(error));
+      throw new Error(`Failed to touch session: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    try {
+      this.log('🗑️  Deleting session:', sanitizeSessionId(sessionId));
+      await this.db.execute(`DELETE FROM ${this.sessionTable} WHERE id = ?`, [sessionId]);
+    } catch (error: any) {
+      this.logError('❌ Failed to delete session:', sanitizeError(error));
+      throw new Error(`Failed to delete session: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroyUserSessions(userId: number): Promise<number> {
+    try {
+      this.log('🗑️  Deleting all sessions for user:', userId);
+      const deleted = await this.db.execute(`DELETE FROM ${this.sessionTable} WHERE user_id = ?`, [
+        userId,
+      ]);
+      this.log('✅ Deleted sessions:', deleted);
+      return deleted;
+    } catch (error: any) {
+      this.logError('❌ Failed to delete user sessions:', sanitizeError(error));
+      throw new Error(`Failed to delete user sessions: ${sanitizeError(error)}`);
+    }
+  }
+
   async close(): Promise<void> {
-    await this.pool.end();
+    await this.db.close();
   }
 }
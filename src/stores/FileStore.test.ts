@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStore } from './FileStore';
+import { SessionDecoder } from '../decoders/SessionDecoder';
+
+const database = {
+  type: 'mysql' as const,
+  host: 'localhost',
+  user: 'app',
+  password: '',
+  database: 'app',
+};
+
+const SESSION_ID = 'a'.repeat(40);
+const SERIALIZED = 'a:1:{s:6:"_token";s:5:"token";}';
+
+describe('FileStore', () => {
+  let directory: string;
+  let store: FileStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'laravel-sessions-'));
+    store = new FileStore(directory, database);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads session files as Laravel writes them, with the mtime as last activity', async () => {
+    const file = path.join(directory, SESSION_ID);
+    await fs.writeFile(file, SERIALIZED);
+    await fs.utimes(file, new Date(), new Date(1700000000 * 1000));
+
+    const session = await store.getSession(SESSION_ID);
+
+    expect(session).toMatchObject({ id: SESSION_ID, last_activity: 1700000000 });
+    expect(new SessionDecoder().decode(session!.payload)).toEqual({ _token: 'token' });
+  });
+
+  it('returns null for missing files and IDs that are not Laravel session IDs', async () => {
+    await fs.writeFile(path.join(directory, 'secret'), SERIALIZED);
+
+    expect(await store.getSession('b'.repeat(40))).toBeNull();
+    expect(await store.getSession('secret')).toBeNull();
+    expect(await store.getSession(`../${path.basename(directory)}/secret`)).toBeNull();
+  });
+
+  it('writes, touches and deletes session files', async () => {
+    await store.writeSession({
+      id: SESSION_ID,
+      user_id: 1,
+      ip_address: null,
+      user_agent: null,
+      payload: Buffer.from(SERIALIZED).toString('base64'),
+      last_activity: 1700000000,
+    });
+
+    expect(await fs.readFile(path.join(directory, SESSION_ID), 'utf-8')).toBe(SERIALIZED);
+
+    await store.touchSession(SESSION_ID);
+    expect((await store.getSession(SESSION_ID))!.last_activity).toBeGreaterThan(1700000000);
+
+    await store.destroySession(SESSION_ID);
+    expect(await store.getSession(SESSION_ID)).toBeNull();
+  });
+
+  it('refuses to write files outside the sessions directory', async () => {
+    await expect(
+      store.writeSession({
+        id: '../escape',
+        user_id: 1,
+        ip_address: null,
+        user_agent: null,
+        payload: '',
+        last_activity: 0,
+      })
+    ).rejects.toThrow('invalid session ID');
+  });
+
+  it("deletes every file of a user's sessions", async () => {
+    await fs.writeFile(path.join(directory, 'a'.repeat(40)), 'user:1');
+    await fs.writeFile(path.join(directory, 'b'.repeat(40)), 'user:2');
+    await fs.writeFile(path.join(directory, 'c'.repeat(40)), 'user:1');
+
+    const deleted = await store.destroyUserSessions(1, session =>
+      Number(Buffer.from(session.payload, 'base64').toString().split(':')[1])
+    );
+
+    expect(deleted).toBe(2);
+    expect(await fs.readdir(directory)).toEqual(['b'.repeat(40)]);
+  });
+
+  it('matches string user IDs', async () => {
+    const uuid = '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d';
+    await fs.writeFile(path.join(directory, 'a'.repeat(40)), `user:${uuid}`);
+    await fs.writeFile(path.join(directory, 'b'.repeat(40)), 'user:2');
+
+    const userId = (session: { payload: string }) =>
+      Buffer.from(session.payload, 'base64').toString().split(':')[1] as any;
+
+    expect(await store.destroyUserSessions(uuid as any, userId)).toBe(1);
+    expect(await store.destroyUserSessions(2, userId)).toBe(1);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StoreInterface, sameUserId } from './StoreInterface';
+import { SessionRecord, LaravelUser, LaravelSessionConfig, UserProviderConfig } from '../types';
+import { DatabaseStore } from './DatabaseStore';
+import { sanitizeSessionId, sanitizeError } from '../utils/SecurityUtils';
+
+/**
+ * Laravel session IDs are always 40 alphanumeric characters (see Store::isValidId).
+ * Anything else is rejected before touching the filesystem to prevent path traversal.
+ */
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9]{40}$/;
+
+export class FileStore implements StoreInterface {
+  private directory: string;
+  private dbStore: DatabaseStore;
+  private debug: boolean;
+
+  constructor(
+    directory: string,
+    dbConfig: LaravelSessionConfig['database'],
+    sessionTable = 'sessions',
+    debug: boolean = false
+  ) {
+    if (!directory) {
+      throw new Error('Session files directory is required');
+    }
+
+    this.directory = path.resolve(directory);
+    this.debug = debug;
+
+    // Database store for user/role queries and permissions
+    this.dbStore = new DatabaseStore(dbConfig, sessionTable, debug);
+  }
+
+  private log(...args: any[]): void {
+    if (this.debug) {
+      console.log('[FileStore]', ...args);
+    }
+  }
+
+  private logError(...args: any[]): void {
+    if (this.debug) {
+      console.error('[FileStore]', ...args);
+    }
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      this.log('❌ Invalid session ID format, skipping file lookup');
+      return null;
+    }
+
+    const file = path.join(this.directory, sessionId);
+
+    try {
+      this.log('🔍 Fetching session from file...');
+      this.log('📋 Directory:', this.directory);
+      this.log('🆔 Session ID:', sanitizeSessionId(sessionId));
+
+      const [contents, stats] = await Promise.all([fs.readFile(file), fs.stat(file)]);
+
+      this.log('✅ Session file found');
+      this.log('📦 Payload length:', contents.length);
+
+      return {
+        id: sessionId,
+        user_id: null, // Files don't store this separately - extracted from payload
+        ip_address: null,
+        user_agent: null,
+        // Laravel writes the raw serialized data to disk, while the database driver
+        // stores it base64 encoded. Normalize so the decoder sees a single format.
+        payload: contents.toString('base64'),
+        last_activity: Math.floor(stats.mtimeMs / 1000),
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        this.log('❌ Session file not found');
+        return null;
+      }
+      this.logError('❌ Failed to get session from file:', sanitizeError(error));
+      throw new Error(`Failed to get session from file: ${sanitizeError(error)}`);
+    }
+  }
+
+  async writeSession(session: SessionRecord): Promise<void> {
+    if (!SESSION_ID_PATTERN.test(session.id)) {
+      throw new Error('Failed to write session to file: invalid session ID');
+    }
+
+    try {
+      this.log('💾 Writing session to file...');
+      this.log('🆔 Session ID:', sanitizeSessionId(session.id));
+
+      const file = path.join(this.directory, session.id);
+      await fs.writeFile(file, Buffer.from(session.payload, 'base64'));
+      await fs.utimes(file, new Date(), new Date(session.last_activity * 1000));
+
+      this.log('✅ Session written to file');
+    } catch (error: any) {
+      this.logError('❌ Failed to write session to file:', sanitizeError(error));
+      throw new Error(`Failed to write session to file: ${sanitizeError(error)}`);
+    }
+  }
+
+  async touchSession(sessionId: string): Promise<void> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      await fs.utimes(path.join(this.directory, sessionId), now, now);
+    } catch (error: any) {
+      this.logError('❌ Failed to touch session file:', sanitizeError(error));
+      throw new Error(`Failed to touch session file: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return;
+    }
+
+    try {
+      this.log('🗑️  Deleting session file:', sanitizeSessionId(sessionId));
+      await fs.unlink(path.join(this.directory, sessionId));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      this.logError('❌ Failed to delete session file:', sanitizeError(error));
+      throw new Error(`Failed to delete session file: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroyUserSessions(
+    userId: number,
+    resolveUserId: (session: SessionRecord) => number | null
+  ): Promise<number> {
+    try {
+      this.log('🗑️  Deleting all session files for user:', userId);
+
+      // Session files have no user index, so read and decode each one
+      let deleted = 0;
+      for (const file of await fs.readdir(this.directory)) {
+        const session = await this.getSession(file);
+        if (session && sameUserId(resolveUserId(session), userId)) {
+          await this.destroySession(file);
+          deleted++;
+        }
+      }
+
+      this.log('✅ Deleted sessions:', deleted);
+      return deleted;
+    } catch (error: any) {
+      this.logError('❌ Failed to delete user session files:', sanitizeError(error));
+      throw new Error(`Failed to delete user session files: ${sanitizeError(error)}`);
+    }
+  }
+
+  async getUser(userId: number, provider?: UserProviderConfig): Promise<LaravelUser | null> {
+    return this.dbStore.getUser(userId, provider);
+  }
+
+  async getUsers(
+    userIds: number[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, LaravelUser>> {
+    return this.dbStore.getUsers(userIds, provider);
+  }
+
+  async getUserByRememberToken(
+    userId: number,
+    token: string,
+    provider?: UserProviderConfig
+  ): Promise<LaravelUser | null> {
+    return this.dbStore.getUserByRememberToken(userId, token, provider);
+  }
+
+  async getUserPasswordHash(user: LaravelUser, provider?: UserProviderConfig): Promise<string | null> {
+    return this.dbStore.getUserPasswordHash(user, provider);
+  }
+
+  async getUserPasswordHashes(
+    users: LaravelUser[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, string>> {
+    return this.dbStore.getUserPasswordHashes(users, provider);
+  }
+
+  async getUserRole(userId: number, provider?: UserProviderConfig): Promise<string | null> {
+    return this.dbStore.getUserRole(userId, provider);
+  }
+
+  async getUserPermissions(userId: number, provider?: UserProviderConfig): Promise<any> {
+    return this.dbStore.getUserPermissions(userId, provider);
+  }
+
+  async close(): Promise<void> {
+    await this.dbStore.close();
+  }
+}
@@ -0,0 +1,190 @@
+import { Client } from 'memjs';
+import { StoreInterface } from './StoreInterface';
+import { SessionRecord, LaravelUser, LaravelSessionConfig, UserProviderConfig } from '../types';
+import { DatabaseStore } from './DatabaseStore';
+import { MemcachedValueCodec } from '../decoders/MemcachedValueCodec';
+import { sanitizeSessionId, sanitizeError } from '../utils/SecurityUtils';
+
+/**
+ * Memcached treats expirations longer than 30 days as Unix timestamps
+ */
+const MAX_RELATIVE_EXPIRATION = 60 * 60 * 24 * 30;
+
+export class MemcachedStore implements StoreInterface {
+  private client: Client;
+  private prefix: string;
+  private dbStore: DatabaseStore;
+  private lifetime: number;
+  private debug: boolean;
+
+  constructor(
+    memcachedConfig: LaravelSessionConfig['memcached'],
+    dbConfig: LaravelSessionConfig['database'],
+    prefix = 'laravel_cache_',
+    sessionTable = 'sessions',
+    debug: boolean = false,
+    lifetime: number = 1000 * 60
+  ) {
+    if (!memcachedConfig || !memcachedConfig.servers || memcachedConfig.servers.length === 0) {
+      throw new Error('Memcached configuration is required');
+    }
+
+    // Laravel's memcached cache store prefixes keys with cache.prefix
+    this.prefix = prefix;
+    this.debug = debug;
+    this.lifetime = lifetime;
+
+    const servers = memcachedConfig.servers
+      .map(server => (typeof server === 'string' ? server : `${server.host}:${server.port || 11211}`))
+      .join(',');
+
+    this.client = Client.create(servers, {
+      username: memcachedConfig.username,
+      password: memcachedConfig.password,
+      logger: { log: (...args: any[]) => this.logError(...args) },
+    });
+
+    // Database store for user/role queries and permissions
+    this.dbStore = new DatabaseStore(dbConfig, sessionTable, debug);
+  }
+
+  private log(...args: any[]): void {
+    if (this.debug) {
+      console.log('[MemcachedStore]', ...args);
+    }
+  }
+
+  private logError(...args: any[]): void {
+    if (this.debug) {
+      console.error('[MemcachedStore]', ...args);
+    }
+  }
+
+  /**
+   * Expiration argument for a lifetime in seconds, like Laravel's MemcachedStore::calculateExpiration
+   */
+  private expiration(lifetime: number): number {
+    return lifetime > MAX_RELATIVE_EXPIRATION ? Math.floor(Date.now() / 1000) + lifetime : lifetime;
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    try {
+      const key = `${this.prefix}${sessionId}`;
+      this.log('🔍 Fetching session from Memcached...');
+      this.log('📋 Key prefix:', this.prefix);
+      this.log('🆔 Session ID:', sanitizeSessionId(sessionId));
+
+      const { value, flags } = await this.client.get(key);
+
+      if (!value) {
+        this.log('❌ Session not found in Memcached');
+        return null;
+      }
+
+      this.log('✅ Session found in Memcached');
+      this.log('📦 Payload length:', value.length);
+
+      const session = MemcachedValueCodec.unwrap(value, flags ? flags.readUInt32BE(0) : 0);
+
+      return {
+        id: sessionId,
+        user_id: null, // Memcached doesn't store this separately - extracted from payload
+        ip_address: null,
+        user_agent: null,
+        // Normalize to the database driver's base64 payload so the decoder sees a single format
+        payload: Buffer.from(session, 'utf-8').toString('base64'),
+        // Memcached evicts expired keys itself and doesn't expose the remaining TTL
+        last_activity: Math.floor(Date.now() / 1000),
+      };
+    } catch (error: any) {
+      this.logError('❌ Failed to get session from Memcached:', sanitizeError(error));
+      throw new Error(`Failed to get session from Memcached: ${sanitizeError(error)}`);
+    }
+  }
+
+  async writeSession(session: SessionRecord, lifetime?: number): Promise<void> {
+    try {
+      const key = `${this.prefix}${session.id}`;
+      this.log('💾 Writing session to Memcached...');
+      this.log('🆔 Session ID:', sanitizeSessionId(session.id));
+
+      // Memcached can't keep a key's TTL on write, so always reset it like Laravel does
+      const value = MemcachedValueCodec.wrap(Buffer.from(session.payload, 'base64').toString('utf-8'));
+      await this.client.set(key, value, { expires: this.expiration(lifetime || this.lifetime) });
+
+      this.log('✅ Session written to Memcached');
+    } catch (error: any) {
+      this.logError('❌ Failed to write session to Memcached:', sanitizeError(error));
+      throw new Error(`Failed to write session to Memcached: ${sanitizeError(error)}`);
+    }
+  }
+
+  async touchSession(sessionId: string, lifetime: number): Promise<void> {
+    try {
+      await this.client.touch(`${this.prefix}${sessionId}`, this.expiration(lifetime));
+    } catch (error: any) {
+      this.logError('❌ Failed to touch session in Memcached:', sanitizeError(error));
+      throw new Error(`Failed to touch session in Memcached: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    try {
+      this.log('🗑️  Deleting session from Memcached:', sanitizeSessionId(sessionId));
+      await this.client.delete(`${this.prefix}${sessionId}`);
+    } catch (error: any) {
+      this.logError('❌ Failed to delete session from Memcached:', sanitizeError(error));
+      throw new Error(`Failed to delete session from Memcached: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroyUserSessions(): Promise<number> {
+    // Memcached can't enumerate keys, so a user's sessions can't be found
+    throw new Error(
+      'Failed to delete user sessions from Memcached: the memcached driver cannot list sessions'
+    );
+  }
+
+  async getUser(userId: number, provider?: UserProviderConfig): Promise<LaravelUser | null> {
+    return this.dbStore.getUser(userId, provider);
+  }
+
+  async getUsers(
+    userIds: number[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, LaravelUser>> {
+    return this.dbStore.getUsers(userIds, provider);
+  }
+
+  async getUserByRememberToken(
+    userId: number,
+    token: string,
+    provider?: UserProviderConfig
+  ): Promise<LaravelUser | null> {
+    return this.dbStore.getUserByRememberToken(userId, token, provider);
+  }
+
+  async getUserPasswordHash(user: LaravelUser, provider?: UserProviderConfig): Promise<string | null> {
+    return this.dbStore.getUserPasswordHash(user, provider);
+  }
+
+  async getUserPasswordHashes(
+    users: LaravelUser[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, string>> {
+    return this.dbStore.getUserPasswordHashes(users, provider);
+  }
+
+  async getUserRole(userId: number, provider?: UserProviderConfig): Promise<string | null> {
+    return this.dbStore.getUserRole(userId, provider);
+  }
+
+  async getUserPermissions(userId: number, provider?: UserProviderConfig): Promise<any> {
+    return this.dbStore.getUserPermissions(userId, provider);
+  }
+
+  async close(): Promise<void> {
+    this.client.quit();
+    await this.dbStore.close();
+  }
+}
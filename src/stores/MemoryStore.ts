@@ -0,0 +1,114 @@
+import { StoreInterface, sameUserId } from './StoreInterface';
+import { SessionRecord, LaravelUser, UserProviderConfig } from '../types';
+import { hashEquals } from '../utils/SecurityUtils';
+
+interface MemoryUser {
+  user: LaravelUser;
+  role: string | null;
+  permissions: any;
+}
+
+/**
+ * In-memory store for tests and local development
+ * Pass it as `store` in the client config; nothing is shared between processes.
+ */
+export class MemoryStore implements StoreInterface {
+  private sessions = new Map<string, SessionRecord>();
+  private users = new Map<string, MemoryUser>();
+
+  /**
+   * Add (or replace) a user with its role and database permissions
+   * The role is merged into the permissions like the database permission resolvers return it
+   * @param table - Provider table, to add users of other guards (e.g. 'admins')
+   */
+  addUser(
+    user: LaravelUser,
+    role: string | null = null,
+    permissions: any = null,
+    table: string = 'users'
+  ): this {
+    this.users.set(`${table}:${user.id}`, { user, role, permissions });
+    return this;
+  }
+
+  /**
+   * Remove all sessions and users
+   */
+  clear(): void {
+    this.sessions.clear();
+    this.users.clear();
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async getUser(userId: number, provider?: UserProviderConfig): Promise<LaravelUser | null> {
+    return this.users.get(`${provider?.table || 'users'}:${userId}`)?.user || null;
+  }
+
+  async getUserByRememberToken(
+    userId: number,
+    token: string,
+    provider?: UserProviderConfig
+  ): Promise<LaravelUser | null> {
+    const user = await this.getUser(userId, provider);
+    const rememberToken = user?.[provider?.rememberTokenColumn || 'remember_token'];
+    return user && typeof rememberToken === 'string' && hashEquals(rememberToken, token)
+      ? user
+      : null;
+  }
+
+  async getUserPasswordHash(
+    user: LaravelUser,
+    provider?: UserProviderConfig
+  ): Promise<string | null> {
+    return user[provider?.passwordColumn || 'password'] ?? null;
+  }
+
+  async getUserRole(userId: number, provider?: UserProviderConfig): Promise<string | null> {
+    return this.users.get(`${provider?.table || 'users'}:${userId}`)?.role || null;
+  }
+
+  async getUserPermissions(userId: number, provider?: UserProviderConfig): Promise<any> {
+    const entry = this.users.get(`${provider?.table || 'users'}:${userId}`);
+    if (entry?.role && entry.permissions) {
+      return { role: entry.role, ...entry.permissions };
+    }
+    return entry?.permissions ?? null;
+  }
+
+  async writeSession(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async touchSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.last_activity = Math.floor(Date.now() / 1000);
+    }
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async destroyUserSessions(
+    userId: number,
+    resolveUserId: (session: SessionRecord) => number | null
+  ): Promise<number> {
+    let deleted = 0;
+    for (const [id, session] of this.sessions) {
+      if (sameUserId(session.user_id ?? resolveUserId(session), userId)) {
+        this.sessions.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to close
+  }
+}
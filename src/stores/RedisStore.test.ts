@@ -0,0 +1,209 @@
+import * as crypto from 'crypto';
+import { LaravelSessionClient } from '../LaravelSessionClient';
+import { RedisValueCodec } from '../decoders/RedisValueCodec';
+import { SessionDecoder } from '../decoders/SessionDecoder';
+import { buildSession } from '../testing/fixtures';
+import { DatabaseStore } from './DatabaseStore';
+import { RedisStore } from './RedisStore';
+
+/**
+ * Regular expression for a Redis glob pattern (`*`, `?`, `[...]` and backslash escapes)
+ */
+function globPattern(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '\\') {
+      source += `\\${glob[++i]}`;
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i);
+      source += glob.slice(i, end + 1);
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Redis client keeping values and their remaining TTL (milliseconds, -1 without expiry)
+ */
+const mockRedis = {
+  values: new Map<string, { value: Buffer; ttl: number }>(),
+  connect: jest.fn(async () => undefined),
+  close: jest.fn(async () => undefined),
+  set: jest.fn<Promise<string>, [string, string, object]>(async () => 'OK'),
+  expire: jest.fn<Promise<number>, [string, number]>(async () => 1),
+  pTTL: async (key: string) => mockRedis.values.get(key)?.ttl ?? -2,
+  del: async (key: string) => Number(mockRedis.values.delete(key)),
+  scan: async (_cursor: string, options: { MATCH: string }) => {
+    const pattern = globPattern(options.MATCH);
+    return {
+      cursor: '0',
+      keys: Array.from(mockRedis.values.keys()).filter(key => pattern.test(key)),
+    };
+  },
+  withTypeMapping: () => ({
+    get: async (key: string) => mockRedis.values.get(key)?.value ?? null,
+    mGet: async (keys: string[]) => keys.map(key => mockRedis.values.get(key)?.value ?? null),
+  }),
+};
+
+jest.mock('redis', () => ({
+  ...jest.requireActual('redis'),
+  createClient: () => mockRedis,
+}));
+
+const appKey = `base64:${crypto.randomBytes(32).toString('base64')}`;
+const database = {
+  type: 'mysql' as const,
+  host: 'localhost',
+  user: 'app',
+  password: '',
+  database: 'app',
+};
+const LIFETIME = 120 * 60;
+const codec = new RedisValueCodec({});
+
+describe('RedisStore session expiry', () => {
+  let store: RedisStore;
+
+  /**
+   * Store a session the way Laravel's cache repository does, with the given remaining TTL
+   */
+  const storeSession = (ttl: number) => {
+    const session = buildSession(1, { appKey, permissions: { role: 'Admin' } });
+    const serialized = Buffer.from(session.record.payload, 'base64').toString('utf-8');
+    mockRedis.values.set(`laravel_session:${session.sessionId}`, {
+      value: codec.wrap(serialized),
+      ttl,
+    });
+    return session;
+  };
+
+  beforeEach(() => {
+    mockRedis.values.clear();
+    jest.clearAllMocks();
+    store = new RedisStore(
+      { host: 'localhost' },
+      database,
+      'laravel_session:',
+      'sessions',
+      false,
+      LIFETIME
+    );
+    jest
+      .spyOn(DatabaseStore.prototype, 'getUser')
+      .mockResolvedValue({ id: 1, email: 'user@example.com' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await store.close();
+  });
+
+  it('derives the expiry and last activity from the key TTL', async () => {
+    const session = storeSession(30 * 60 * 1000);
+    const now = Math.floor(Date.now() / 1000);
+
+    const record = await store.getSession(session.sessionId);
+
+    expect(record!.expires_at).toBeGreaterThanOrEqual(now + 30 * 60);
+    expect(record!.expires_at).toBeLessThanOrEqual(now + 30 * 60 + 1);
+    expect(record!.last_activity).toBe(record!.expires_at! - LIFETIME);
+    expect(new SessionDecoder(appKey).decode(record!.payload)).toEqual(session.sessionData);
+  });
+
+  it('treats keys without a TTL as active now and never expiring', async () => {
+    const session = storeSession(-1);
+
+    const record = await store.getSession(session.sessionId);
+
+    expect(record!.expires_at).toBeUndefined();
+    expect(record!.last_activity).toBeGreaterThanOrEqual(Math.floor(Date.now() / 1000) - 1);
+  });
+
+  it('reports keys that expired before their TTL was read as expired', async () => {
+    const client = new LaravelSessionClient({
+      appKey,
+      session: { driver: 'memory', lifetime: 120 },
+      store,
+    });
+    const active = storeSession(60 * 1000);
+    // The key expired between GET and PTTL
+    const expired = storeSession(-2);
+
+    expect((await client.validateSession(active.cookieValue)).valid).toBe(true);
+    expect(await client.validateSession(expired.cookieValue)).toMatchObject({
+      valid: false,
+      error: 'Session expired',
+    });
+  });
+
+  it('keeps the TTL on writes unless a lifetime is given', async () => {
+    const session = storeSession(60 * 1000);
+    const record = (await store.getSession(session.sessionId))!;
+
+    await store.writeSession(record);
+    await store.writeSession(record, LIFETIME);
+    await store.touchSession(session.sessionId, LIFETIME);
+
+    expect(mockRedis.set.mock.calls.map(call => call[2])).toEqual([
+      { KEEPTTL: true },
+      { EX: LIFETIME },
+    ]);
+    expect(mockRedis.expire).toHaveBeenCalledWith(`laravel_session:${session.sessionId}`, LIFETIME);
+  });
+});
+
+describe('RedisStore user sessions', () => {
+  const prefix = 'app[1]*:';
+  let store: RedisStore;
+
+  const storeSession = (key: string, userId: number) => {
+    const session = buildSession(userId, { appKey });
+    const serialized = Buffer.from(session.record.payload, 'base64').toString('utf-8');
+    mockRedis.values.set(`${key}${session.sessionId}`, { value: codec.wrap(serialized), ttl: -1 });
+    return `${key}${session.sessionId}`;
+  };
+
+  const decoder = new SessionDecoder(appKey);
+  const resolveUserId = (session: { payload: string }) =>
+    decoder.getUserId(decoder.decode(session.payload)!);
+
+  beforeEach(() => {
+    mockRedis.values.clear();
+    store = new RedisStore({ host: 'localhost' }, database, prefix, 'sessions', false, LIFETIME);
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('only scans keys starting with the literal prefix', async () => {
+    const own = storeSession(prefix, 1);
+    // Matches app[1]*:* when the prefix is not escaped
+    const foreign = storeSession('app1cache:', 1);
+
+    expect(await store.destroyUserSessions(1, resolveUserId)).toBe(1);
+
+    expect(mockRedis.values.has(own)).toBe(false);
+    expect(mockRedis.values.has(foreign)).toBe(true);
+  });
+
+  it('matches string user IDs', async () => {
+    const uuid = '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d';
+    const own = storeSession(prefix, uuid as any);
+    const other = storeSession(prefix, 2);
+
+    expect(await store.destroyUserSessions(uuid as any, resolveUserId)).toBe(1);
+
+    expect(mockRedis.values.has(own)).toBe(false);
+    expect(mockRedis.values.has(other)).toBe(true);
+  });
+});
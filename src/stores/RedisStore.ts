@@ -1,13 +1,37 @@
-import { createClient, RedisClientType } from 'redis';
-import { StoreInterface } from './StoreInterface';
-import { SessionRecord, LaravelUser, LaravelSessionConfig } from '../types';
+import {
+  createClient,
+  createCluster,
+  createSentinel,
+  RedisClientType,
+  RedisClusterType,
+  RedisSentinelType,
+  RESP_TYPES,
+} from 'redis';
+import { StoreInterface, sameUserId } from './StoreInterface';
+import { SessionRecord, LaravelUser, LaravelSessionConfig, UserProviderConfig } from '../types';
 import { DatabaseStore } from './DatabaseStore';
+import { RedisValueCodec } from '../decoders/RedisValueCodec';
 import { sanitizeSessionId, sanitizeError } from '../utils/SecurityUtils';
 
+export type RedisConfig = NonNullable<LaravelSessionConfig['redis']>;
+export type RedisConnection = RedisClientType | RedisClusterType | RedisSentinelType;
+
+// node-redis v4 has no RESP3 type mapping; binary reads use commandOptions there instead
+const NODE_REDIS_V4 = RESP_TYPES === undefined;
+
+/**
+ * Escape SCAN MATCH glob characters, so a prefix only matches itself
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
 export class RedisStore implements StoreInterface {
-  private client: RedisClientType;
+  private client: RedisConnection;
   private prefix: string;
+  private codec: RedisValueCodec;
   private dbStore: DatabaseStore;
+  private lifetime: number;
   private connected: boolean = false;
   private debug: boolean;
 
@@ -16,27 +40,96 @@ export class RedisStore implements StoreInterface {
     dbConfig: LaravelSessionConfig['database'],
     prefix = 'laravel_session:',
     sessionTable = 'sessions',
-    appKey?: string,
-    permissionsKey?: string | string[],
-    debug: boolean = false
+    debug: boolean = false,
+    lifetime: number = 1000 * 60
   ) {
     if (!redisConfig) {
       throw new Error('Redis configuration is required');
     }
 
-    this.prefix = prefix;
+    // Laravel composes keys as REDIS_PREFIX (database.redis.options.prefix) + cache prefix + session ID
+    this.prefix = `${redisConfig.prefix || ''}${prefix}`;
     this.debug = debug;
-    this.client = createClient({
-      socket: {
-        host: redisConfig.host,
-        port: redisConfig.port || 6379,
-      },
-      password: redisConfig.password,
-      database: redisConfig.db || 0,
+    this.lifetime = lifetime;
+    this.codec = new RedisValueCodec({
+      serializer: redisConfig.serializer,
+      compression: redisConfig.compression,
     });
+    this.client = RedisStore.createConnection(redisConfig);
 
     // Database store for user/role queries and permissions
-    this.dbStore = new DatabaseStore(dbConfig, sessionTable, appKey, permissionsKey, debug);
+    this.dbStore = new DatabaseStore(dbConfig, sessionTable, debug);
+  }
+
+  /**
+   * Build a single-node, Sentinel or Cluster client from the redis config
+   */
+  static createConnection(config: RedisConfig): RedisConnection {
+    const tls = config.tls ? { tls: true as const, ...(config.tls === true ? {} : config.tls) } : {};
+
+    if (config.cluster) {
+      return createCluster({
+        rootNodes: config.cluster.nodes.map(node =>
+          typeof node === 'string'
+            ? { url: node }
+            : { socket: { host: node.host, port: node.port || 6379, ...tls } }
+        ),
+        defaults: {
+          username: config.username,
+          password: config.password,
+          socket: tls,
+        },
+      }) as unknown as RedisConnection;
+    }
+
+    if (config.sentinel) {
+      if (typeof createSentinel !== 'function') {
+        throw new Error('Redis Sentinel connections require node-redis v5');
+      }
+
+      return createSentinel({
+        name: config.sentinel.name,
+        sentinelRootNodes: config.sentinel.nodes.map(node => ({
+          host: node.host,
+          port: node.port || 26379,
+        })),
+        nodeClientOptions: {
+          username: config.username,
+          password: config.password,
+          database: config.db || 0,
+          socket: tls,
+        },
+        sentinelClientOptions: {
+          username: config.sentinel.username,
+          password: config.sentinel.password,
+          socket: tls,
+        },
+      }) as unknown as RedisConnection;
+    }
+
+    if (!config.url && !config.host) {
+      throw new Error('Redis configuration requires a url, host, sentinel or cluster definition');
+    }
+
+    return createClient({
+      url: config.url,
+      // Host/port come from the URL when one is given (rediss:// enables TLS)
+      socket: config.url ? tls : { host: config.host, port: config.port || 6379, ...tls },
+      username: config.username,
+      password: config.password,
+      database: config.db,
+    }) as RedisConnection;
+  }
+
+  /**
+   * Close a connection with the API of the installed node-redis (v4 has quit, v5 close)
+   */
+  static async closeConnection(client: RedisConnection): Promise<void> {
+    if (NODE_REDIS_V4) {
+      await (client as any).quit();
+    } else {
+      await client.close();
+    }
   }
 
   private log(...args: any[]): void {
@@ -58,6 +151,83 @@ export class RedisStore implements StoreInterface {
     }
   }
 
+  /**
+   * Read a key as raw bytes (serialized/compressed values aren't valid UTF-8)
+   */
+  private async getRaw(key: string): Promise<Buffer | null> {
+    if (NODE_REDIS_V4) {
+      const client = this.client as any;
+      return client.get(client.commandOptions({ returnBuffers: true }), key);
+    }
+    return this.client.withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer }).get(key);
+  }
+
+  /**
+   * Read several keys as raw bytes with a single MGET
+   */
+  private async mGetRaw(keys: string[]): Promise<Array<Buffer | null>> {
+    if (NODE_REDIS_V4) {
+      const client = this.client as any;
+      return client.mGet(client.commandOptions({ returnBuffers: true }), keys);
+    }
+    return this.client.withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer }).mGet(keys);
+  }
+
+  /**
+   * Iterate keys matching a pattern (each cluster master is scanned separately)
+   */
+  private async *scanKeys(pattern: string): AsyncGenerator<string> {
+    const nodes =
+      'masters' in this.client
+        ? await Promise.all(
+            this.client.masters.map(master => (this.client as RedisClusterType).nodeClient(master))
+          )
+        : [this.client];
+
+    for (const node of nodes) {
+      // v4 cursors are numbers, v5 cursors strings
+      let cursor: any = NODE_REDIS_V4 ? 0 : '0';
+      do {
+        const reply = await node.scan(cursor, { MATCH: pattern, COUNT: 100 });
+        cursor = reply.cursor;
+        yield* reply.keys;
+      } while (String(cursor) !== '0');
+    }
+  }
+
+  /**
+   * Build a session record from a raw Redis value
+   * Laravel sets the key TTL to the session lifetime on every write, so the remaining
+   * TTL (PTTL, in milliseconds) gives both the expiry and the last activity
+   */
+  private toSessionRecord(sessionId: string, raw: Buffer, ttl?: number): SessionRecord {
+    // Laravel's cache format wraps the serialized session; normalize it to the
+    // database driver's base64 payload so the decoder sees a single format
+    const session = this.codec.unwrap(raw);
+    const payload =
+      session !== null ? Buffer.from(session, 'utf-8').toString('base64') : raw.toString('utf-8');
+
+    const now = Date.now();
+    let lastActivity = Math.floor(now / 1000);
+    let expiresAt: number | undefined;
+
+    if (ttl !== undefined && ttl !== -1) {
+      // -2 means the key expired between GET and PTTL
+      expiresAt = Math.floor((now + Math.max(ttl, 0)) / 1000);
+      lastActivity = expiresAt - this.lifetime;
+    }
+
+    return {
+      id: sessionId,
+      user_id: null, // Redis doesn't store this separately - extracted from payload
+      ip_address: null,
+      user_agent: null,
+      payload,
+      last_activity: lastActivity,
+      expires_at: expiresAt,
+    };
+  }
+
   async getSession(sessionId: string): Promise<SessionRecord | null> {
     try {
       await this.ensureConnected();
@@ -67,45 +237,175 @@ export class RedisStore implements StoreInterface {
       this.log('📋 Key prefix:', this.prefix);
       this.log('🆔 Session ID:', sanitizeSessionId(sessionId));
       
-      const payload = await this.client.get(key);
+      const [raw, ttl] = await Promise.all([this.getRaw(key), this.client.pTTL(key)]);
 
-      if (!payload) {
+      if (!raw) {
         this.log('❌ Session not found in Redis');
         return null;
       }
 
       this.log('✅ Session found in Redis');
-      this.log('📦 Payload length:', payload.length);
-
-      return {
-        id: sessionId,
-        user_id: null, // Redis doesn't store this separately - extracted from payload
-        ip_address: null,
-        user_agent: null,
-        payload: payload,
-        last_activity: Math.floor(Date.now() / 1000),
-      };
+      this.log('📦 Payload length:', raw.length);
+      this.log('⏱️  TTL (ms):', ttl);
+
+      return this.toSessionRecord(sessionId, raw, ttl);
     } catch (error: any) {
       this.logError('❌ Failed to get session from Redis:', sanitizeError(error));
       throw new Error(`Failed to get session from Redis: ${sanitizeError(error)}`);
     }
   }
 
-  async getUser(userId: number): Promise<LaravelUser | null> {
-    return this.dbStore.getUser(userId);
+  async getSessions(sessionIds: string[]): Promise<Map<string, SessionRecord>> {
+    try {
+      await this.ensureConnected();
+      this.log('🔍 Fetching', sessionIds.length, 'sessions from Redis...');
+
+      const keys = sessionIds.map(sessionId => `${this.prefix}${sessionId}`);
+      // MGET fails with CROSSSLOT on clusters, so cluster reads are one GET per key
+      const getValues = (): Promise<Array<Buffer | null>> =>
+        'masters' in this.client
+          ? Promise.all(keys.map(key => this.getRaw(key)))
+          : this.mGetRaw(keys);
+      // Commands sent in the same tick share a round trip (node-redis pipelines them)
+      const [values, ttls] = await Promise.all([
+        getValues(),
+        Promise.all(keys.map(key => this.client.pTTL(key))),
+      ]);
+
+      const sessions = new Map<string, SessionRecord>();
+      sessionIds.forEach((sessionId, index) => {
+        const raw = values[index];
+        if (raw) {
+          sessions.set(sessionId, this.toSessionRecord(sessionId, raw, ttls[index]));
+        }
+      });
+
+      this.log('✅ Sessions found:', sessions.size);
+      return sessions;
+    } catch (error: any) {
+      this.logError('❌ Failed to get sessions from Redis:', sanitizeError(error));
+      throw new Error(`Failed to get sessions from Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async writeSession(session: SessionRecord, lifetime?: number): Promise<void> {
+    try {
+      await this.ensureConnected();
+
+      const key = `${this.prefix}${session.id}`;
+      this.log('💾 Writing session to Redis...');
+      this.log('🆔 Session ID:', sanitizeSessionId(session.id));
+
+      // Store in Laravel's cache format, preserving the TTL unless a new lifetime is given
+      const value = this.codec.wrap(Buffer.from(session.payload, 'base64').toString('utf-8'));
+      await this.client.set(key, value, lifetime ? { EX: lifetime } : { KEEPTTL: true });
+
+      this.log('✅ Session written to Redis');
+    } catch (error: any) {
+      this.logError('❌ Failed to write session to Redis:', sanitizeError(error));
+      throw new Error(`Failed to write session to Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async touchSession(sessionId: string, lifetime: number): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.client.expire(`${this.prefix}${sessionId}`, lifetime);
+    } catch (error: any) {
+      this.logError('❌ Failed to touch session in Redis:', sanitizeError(error));
+      throw new Error(`Failed to touch session in Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    try {
+      await this.ensureConnected();
+      this.log('🗑️  Deleting session from Redis:', sanitizeSessionId(sessionId));
+      await this.client.del(`${this.prefix}${sessionId}`);
+    } catch (error: any) {
+      this.logError('❌ Failed to delete session from Redis:', sanitizeError(error));
+      throw new Error(`Failed to delete session from Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async destroyUserSessions(
+    userId: number,
+    resolveUserId: (session: SessionRecord) => number | null
+  ): Promise<number> {
+    try {
+      await this.ensureConnected();
+      this.log('🗑️  Deleting all Redis sessions for user:', userId);
+
+      // Redis has no user index, so scan the session keys and decode each payload
+      let deleted = 0;
+      for await (const key of this.scanKeys(`${escapeGlob(this.prefix)}*`)) {
+        const raw = await this.getRaw(key);
+        if (!raw) {
+          continue;
+        }
+
+        let session: SessionRecord;
+        try {
+          session = this.toSessionRecord(key.slice(this.prefix.length), raw);
+        } catch {
+          // Not a session value
+          continue;
+        }
+
+        if (sameUserId(resolveUserId(session), userId)) {
+          deleted += await this.client.del(key);
+        }
+      }
+
+      this.log('✅ Deleted sessions:', deleted);
+      return deleted;
+    } catch (error: any) {
+      this.logError('❌ Failed to delete user sessions from Redis:', sanitizeError(error));
+      throw new Error(`Failed to delete user sessions from Redis: ${sanitizeError(error)}`);
+    }
+  }
+
+  async getUser(userId: number, provider?: UserProviderConfig): Promise<LaravelUser | null> {
+    return this.dbStore.getUser(userId, provider);
+  }
+
+  async getUsers(
+    userIds: number[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, LaravelUser>> {
+    return this.dbStore.getUsers(userIds, provider);
+  }
+
+  async getUserByRememberToken(
+    userId: number,
+    token: string,
+    provider?: UserProviderConfig
+  ): Promise<LaravelUser | null> {
+    return this.dbStore.getUserByRememberToken(userId, token, provider);
+  }
+
+  async getUserPasswordHash(user: LaravelUser, provider?: UserProviderConfig): Promise<string | null> {
+    return this.dbStore.getUserPasswordHash(user, provider);
+  }
+
+  async getUserPasswordHashes(
+    users: LaravelUser[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, string>> {
+    return this.dbStore.getUserPasswordHashes(users, provider);
   }
 
-  async getUserRole(userId: number): Promise<string | null> {
-    return this.dbStore.getUserRole(userId);
+  async getUserRole(userId: number, provider?: UserProviderConfig): Promise<string | null> {
+    return this.dbStore.getUserRole(userId, provider);
   }
 
-  async getUserPermissions(userId: number): Promise<any> {
-    return this.dbStore.getUserPermissions(userId);
+  async getUserPermissions(userId: number, provider?: UserProviderConfig): Promise<any> {
+    return this.dbStore.getUserPermissions(userId, provider);
   }
 
   async close(): Promise<void> {
     if (this.connected) {
-      await this.client.quit();
+      await RedisStore.closeConnection(this.client);
       this.connected = false;
     }
     await this.dbStore.close();
@@ -1,4 +1,4 @@
-import { SessionRecord, LaravelUser } from '../types';
+import { SessionRecord, LaravelUser, UserProviderConfig } from '../types';
 
 export interface StoreInterface {
   /**
@@ -6,23 +6,100 @@ export interface StoreInterface {
    */
   getSession(sessionId: string): Promise<SessionRecord | null>;
 
+  /**
+   * Get several sessions in one round trip, keyed by session ID (missing sessions are left out)
+   * Optional: batch validation falls back to getSession for each ID
+   */
+  getSessions?(sessionIds: string[]): Promise<Map<string, SessionRecord>>;
+
   /**
    * Get user from database
+   * @param provider - Users table of the guard the user is logged in with (default provider when omitted)
+   */
+  getUser(userId: number, provider?: UserProviderConfig): Promise<LaravelUser | null>;
+
+  /**
+   * Get several users in one query, keyed by user ID (missing or deleted users are left out)
+   * Optional: batch validation falls back to getUser for each ID
+   */
+  getUsers?(userIds: number[], provider?: UserProviderConfig): Promise<Map<number, LaravelUser>>;
+
+  /**
+   * Get a user by ID and remember-me token (like Laravel's UserProvider::retrieveByToken)
+   * Returns null when the user doesn't exist or the token doesn't match
+   */
+  getUserByRememberToken(
+    userId: number,
+    token: string,
+    provider?: UserProviderConfig
+  ): Promise<LaravelUser | null>;
+
+  /**
+   * Get a user's current password hash (UserProvider's getAuthPassword)
+   * @param user - User already loaded with getUser, so it isn't fetched again
+   */
+  getUserPasswordHash(user: LaravelUser, provider?: UserProviderConfig): Promise<string | null>;
+
+  /**
+   * Get the password hashes of several loaded users in one query, keyed by `user.id`
+   * Optional: batch validation falls back to getUserPasswordHash for each user
    */
-  getUser(userId: number): Promise<LaravelUser | null>;
+  getUserPasswordHashes?(
+    users: LaravelUser[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, string>>;
 
   /**
    * Get user role
+   * Only called when neither the session nor getUserPermissions has permissions for the user
+   * @param provider - Provider of the guard the user is logged in with (defaults to database.users)
    */
-  getUserRole(userId: number): Promise<string | null>;
+  getUserRole(userId: number, provider?: UserProviderConfig): Promise<string | null>;
 
   /**
    * Get user permissions (modules and links)
+   * Only called when the session payload has no permissions
+   * @param provider - Provider of the guard the user is logged in with (defaults to database.users)
    */
-  getUserPermissions(userId: number): Promise<any>;
+  getUserPermissions(userId: number, provider?: UserProviderConfig): Promise<any>;
+
+  /**
+   * Write session back to store (inserting it if it doesn't exist yet)
+   * @param lifetime - Expiry in seconds for stores with key TTLs (existing TTL is kept when omitted)
+   */
+  writeSession(session: SessionRecord, lifetime?: number): Promise<void>;
+
+  /**
+   * Refresh session activity without rewriting the payload
+   * @param lifetime - Session lifetime in seconds
+   */
+  touchSession(sessionId: string, lifetime: number): Promise<void>;
+
+  /**
+   * Delete a session (logout)
+   */
+  destroySession(sessionId: string): Promise<void>;
+
+  /**
+   * Delete every session belonging to a user
+   * @param resolveUserId - Extracts the user ID from a session, for stores that don't index sessions by user
+   *   (compare it with sameUserId: payloads may hold numeric IDs as strings, and UUIDs are strings)
+   * @returns Number of deleted sessions
+   */
+  destroyUserSessions(
+    userId: number,
+    resolveUserId: (session: SessionRecord) => number | null
+  ): Promise<number>;
 
   /**
    * Close store connection
    */
   close(): Promise<void>;
 }
+
+/**
+ * Compare user IDs as strings, so numeric IDs match their string form and string keys (UUIDs) match
+ */
+export function sameUserId(a: number | string | null | undefined, b: number | string): boolean {
+  return a !== null && a !== undefined && String(a) === String(b);
+}
@@ -0,0 +1,61 @@
+import { LaravelSessionConfig } from '../../types';
+import { MysqlDialect } from './MysqlDialect';
+import { PostgresDialect } from './PostgresDialect';
+
+/**
+ * SQL dialect used by DatabaseStore
+ * Queries are written once with `?` placeholders; each dialect adapts them to its driver
+ */
+export interface DatabaseDialect {
+  readonly name: 'mysql' | 'postgres';
+
+  /**
+   * Run a query with `?` placeholders and return the result rows
+   */
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>;
+
+  /**
+   * Run a write statement with `?` placeholders and return the number of affected rows
+   */
+  execute(sql: string, params?: any[]): Promise<number>;
+
+  /**
+   * Build a string concatenation expression from SQL expressions
+   */
+  concat(...expressions: string[]): string;
+
+  /**
+   * Close the connection pool
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Table and column names from the config are interpolated into SQL, so only plain
+ * (optionally table-qualified) identifiers are accepted
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Validate a configured table or column name before using it in SQL
+ */
+export function sqlIdentifier(name: string, setting: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid identifier in ${setting} configuration: ${name}`);
+  }
+  return name;
+}
+
+/**
+ * Create the dialect matching `database.type`
+ */
+export function createDialect(config: NonNullable<LaravelSessionConfig['database']>): DatabaseDialect {
+  switch (config.type) {
+    case 'mysql':
+      return new MysqlDialect(config);
+    case 'postgres':
+      return new PostgresDialect(config);
+    default:
+      throw new Error(`Unsupported database type: ${config.type}. Supported types: 'mysql', 'postgres'`);
+  }
+}
@@ -0,0 +1,42 @@
+import type { Pool, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { DatabaseDialect } from './DatabaseDialect';
+import { LaravelSessionConfig } from '../../types';
+import { requireOptional } from '../../utils/requireOptional';
+
+export class MysqlDialect implements DatabaseDialect {
+  readonly name = 'mysql' as const;
+  private pool: Pool;
+
+  constructor(config: NonNullable<LaravelSessionConfig['database']>) {
+    const mysql = requireOptional<typeof import('mysql2/promise')>('mysql2/promise', 'MySQL sessions');
+
+    this.pool = mysql.createPool({
+      host: config.host,
+      port: config.port || 3306,
+      user: config.user,
+      password: config.password,
+      database: config.database,
+      waitForConnections: true,
+      connectionLimit: config.connectionLimit || 10,
+      queueLimit: 0,
+    });
+  }
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    const [rows] = await this.pool.execute<RowDataPacket[]>(sql, params);
+    return rows as unknown as T[];
+  }
+
+  async execute(sql: string, params: any[] = []): Promise<number> {
+    const [result] = await this.pool.execute<ResultSetHeader>(sql, params);
+    return result.affectedRows;
+  }
+
+  concat(...expressions: string[]): string {
+    return `CONCAT(${expressions.join(', ')})`;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
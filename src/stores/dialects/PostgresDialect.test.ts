@@ -0,0 +1,27 @@
+import { toPositional } from './PostgresDialect';
+
+describe('PostgresDialect placeholders', () => {
+  it('numbers placeholders in order', () => {
+    expect(toPositional('SELECT * FROM users WHERE id IN (?, ?) AND deleted_at IS NULL')).toBe(
+      'SELECT * FROM users WHERE id IN ($1, $2) AND deleted_at IS NULL'
+    );
+  });
+
+  it('leaves quoted literals and identifiers alone', () => {
+    expect(toPositional(`SELECT 'it''s?' as "what?", E'\\'?' FROM users WHERE email = ?`)).toBe(
+      `SELECT 'it''s?' as "what?", E'\\'?' FROM users WHERE email = $1`
+    );
+  });
+
+  it('leaves comments and dollar-quoted strings alone', () => {
+    expect(
+      toPositional('SELECT $$?$$, $tag$ ? $tag$ -- why?\nFROM users /* ? */ WHERE id = ?')
+    ).toBe('SELECT $$?$$, $tag$ ? $tag$ -- why?\nFROM users /* ? */ WHERE id = $1');
+  });
+
+  it('writes ?? as a literal ? for JSONB operators', () => {
+    expect(
+      toPositional("SELECT * FROM users WHERE settings ?? 'beta' AND tags ??| ? AND id = ?")
+    ).toBe("SELECT * FROM users WHERE settings ? 'beta' AND tags ?| $1 AND id = $2");
+  });
+});
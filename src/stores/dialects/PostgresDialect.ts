@@ -0,0 +1,116 @@
+import type { Pool } from 'pg';
+import { DatabaseDialect } from './DatabaseDialect';
+import { LaravelSessionConfig } from '../../types';
+import { requireOptional } from '../../utils/requireOptional';
+
+/**
+ * Convert `?` placeholders to PostgreSQL's `$1, $2, ...`
+ * Quoted literals and identifiers, dollar-quoted strings and comments are left alone. `??` is a
+ * literal `?`, like PDO, for the JSONB operators (`data ?? 'key'`, `??|`, `??&`).
+ */
+export function toPositional(sql: string): string {
+  let index = 0;
+  let result = '';
+  let i = 0;
+
+  // Copy everything up to and including the end of a quoted or commented section
+  const copyUntil = (end: string, from: number): void => {
+    const close = sql.indexOf(end, from);
+    const stop = close === -1 ? sql.length : close + end.length;
+    result += sql.slice(i, stop);
+    i = stop;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === "'") {
+      // E'...' strings escape quotes with a backslash; '' is an escaped quote in both forms
+      const escapes = /[eE]/.test(sql[i - 1] || '') && !/\w/.test(sql[i - 2] || '');
+      let end = i + 1;
+      while (end < sql.length) {
+        if (escapes && sql[end] === '\\') {
+          end += 2;
+        } else if (sql[end] === "'" && sql[end + 1] === "'") {
+          end += 2;
+        } else if (sql[end] === "'") {
+          break;
+        } else {
+          end++;
+        }
+      }
+      result += sql.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === '"') {
+      copyUntil('"', i + 1);
+    } else if (char === '-' && next === '-') {
+      copyUntil('\n', i + 2);
+    } else if (char === '/' && next === '*') {
+      copyUntil('*/', i + 2);
+    } else if (char === '$' && /[A-Za-z_$]/.test(next || '') && !/\w/.test(sql[i - 1] || '')) {
+      // Dollar-quoted string ($$...$$ or $tag$...$tag$)
+      const tag = /^\$[A-Za-z_]\w*\$|^\$\$/.exec(sql.slice(i))?.[0];
+      if (tag) {
+        result += tag;
+        i += tag.length;
+        copyUntil(tag, i);
+      } else {
+        result += char;
+        i++;
+      }
+    } else if (char === '?' && next === '?') {
+      result += '?';
+      i += 2;
+    } else if (char === '?') {
+      result += `$${++index}`;
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+export class PostgresDialect implements DatabaseDialect {
+  readonly name = 'postgres' as const;
+  private pool: Pool;
+
+  constructor(config: NonNullable<LaravelSessionConfig['database']>) {
+    const pg = requireOptional<typeof import('pg')>('pg', 'PostgreSQL sessions');
+
+    // Laravel's id() and foreignId() columns are bigint, which pg returns as strings by default
+    const types = new pg.TypeOverrides();
+    types.setTypeParser(pg.types.builtins.INT8, (value: string) => Number(value));
+
+    this.pool = new pg.Pool({
+      host: config.host,
+      port: config.port || 5432,
+      user: config.user,
+      password: config.password,
+      database: config.database,
+      max: config.connectionLimit || 10,
+      types,
+    });
+  }
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    const result = await this.pool.query(toPositional(sql), params);
+    return result.rows as T[];
+  }
+
+  async execute(sql: string, params: any[] = []): Promise<number> {
+    const result = await this.pool.query(toPositional(sql), params);
+    return result.rowCount || 0;
+  }
+
+  concat(...expressions: string[]): string {
+    return expressions.join(' || ');
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,47 @@
+import { PermissionResolver } from './PermissionResolver';
+import { DatabaseDialect } from '../dialects/DatabaseDialect';
+
+/**
+ * Roles, modules and links from the user_roles/roles/module_permissions/modules/
+ * link_permissions/links tables
+ */
+export class ModulePermissionResolver implements PermissionResolver {
+  async resolve(userId: number, db: DatabaseDialect): Promise<any> {
+    // Get all roles for the user
+    const roles = await db.query(
+      `SELECT r.id, r.role_name
+       FROM user_roles ur
+       JOIN roles r ON r.id = ur.role_id
+       WHERE ur.user_id = ?`,
+      [userId]
+    );
+    const roleArr = roles.map(r => r.role_name);
+
+    // Get modules (permissions) for the user
+    const modules = await db.query(
+      `SELECT DISTINCT m.id, m.module_name as name, m.url
+       FROM module_permissions mp
+       JOIN modules m ON m.id = mp.module_id
+       JOIN user_roles ur ON ur.role_id = mp.role_id
+       WHERE ur.user_id = ? AND m.deleted_at IS NULL AND mp.deleted_at IS NULL`,
+      [userId]
+    );
+
+    // Get links (sub-permissions) for the user
+    const links = await db.query(
+      `SELECT DISTINCT l.id, l.link_name as name, l.permission_module_id, l.url
+       FROM link_permissions lp
+       JOIN links l ON l.id = lp.link_id
+       JOIN user_roles ur ON ur.role_id = lp.role_id
+       WHERE ur.user_id = ? AND l.deleted_at IS NULL AND lp.deleted_at IS NULL`,
+      [userId]
+    );
+
+    return {
+      role: roleArr.length > 0 ? roleArr[0] : null,
+      role_arr: roleArr,
+      modules,
+      links,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { DatabaseDialect } from '../dialects/DatabaseDialect';
+import { PermissionsConfig } from '../../types';
+import { ModulePermissionResolver } from './ModulePermissionResolver';
+import { SpatiePermissionResolver } from './SpatiePermissionResolver';
+
+/**
+ * Loads a user's roles and permissions from the database
+ * Results include `role` (the primary role name), which DatabaseStore.getUserRole falls back to
+ */
+export interface PermissionResolver {
+  resolve(userId: number, db: DatabaseDialect): Promise<any>;
+}
+
+/**
+ * Create the resolver matching `database.permissions.source`
+ */
+export function createPermissionResolver(config: PermissionsConfig = { source: 'modules' }): PermissionResolver {
+  switch (config.source) {
+    case 'modules':
+      return new ModulePermissionResolver();
+    case 'spatie':
+      return new SpatiePermissionResolver(config);
+    case 'custom':
+      return {
+        resolve: (userId, db) => config.resolver(userId, (sql, params) => db.query(sql, params)),
+      };
+    default:
+      throw new Error(
+        `Unsupported permissions source: ${(config as any).source}. Supported sources: 'modules', 'spatie', 'custom'`
+      );
+  }
+}
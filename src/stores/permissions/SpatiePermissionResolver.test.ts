@@ -0,0 +1,112 @@
+import { DatabaseDialect } from '../dialects/DatabaseDialect';
+import { SpatiePermissionResolver } from './SpatiePermissionResolver';
+
+/**
+ * Dialect answering the role, direct permission and role permission queries from fixtures
+ */
+class SpatieDialect implements DatabaseDialect {
+  readonly name = 'mysql';
+  queries: Array<{ sql: string; params: any[] }> = [];
+  roles = ['Editor', 'Writer'];
+  direct = ['publish posts'];
+  viaRoles = ['edit posts', 'publish posts'];
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    this.queries.push({ sql, params });
+
+    const names = /rhp\./.test(sql) ? this.viaRoles : /mhp\./.test(sql) ? this.direct : this.roles;
+    return names.map(name => ({ name })) as T[];
+  }
+
+  async execute(): Promise<number> {
+    return 0;
+  }
+
+  concat(...expressions: string[]): string {
+    return `CONCAT(${expressions.join(', ')})`;
+  }
+
+  async close(): Promise<void> {}
+}
+
+describe('SpatiePermissionResolver', () => {
+  let db: SpatieDialect;
+
+  beforeEach(() => {
+    db = new SpatieDialect();
+  });
+
+  it('merges direct permissions and permissions granted through roles', async () => {
+    const permissions = await new SpatiePermissionResolver({ source: 'spatie' }).resolve(1, db);
+
+    expect(permissions).toEqual({
+      role: 'Editor',
+      role_arr: ['Editor', 'Writer'],
+      permissions: ['publish posts', 'edit posts'],
+      direct_permissions: ['publish posts'],
+      role_permissions: ['edit posts', 'publish posts'],
+    });
+  });
+
+  it('has no role for users without roles', async () => {
+    db.roles = [];
+    db.viaRoles = [];
+
+    const permissions = await new SpatiePermissionResolver({ source: 'spatie' }).resolve(1, db);
+
+    expect(permissions).toMatchObject({ role: null, role_arr: [], permissions: ['publish posts'] });
+  });
+
+  it('filters by the user model and the web guard by default', async () => {
+    await new SpatiePermissionResolver({ source: 'spatie' }).resolve(7, db);
+
+    expect(db.queries.map(query => query.params)).toEqual([
+      [7, 'App\\Models\\User', 'web'],
+      [7, 'App\\Models\\User', 'web'],
+      [7, 'App\\Models\\User', 'web'],
+    ]);
+    expect(db.queries[0].sql).toMatch(/FROM model_has_roles mhr\s+JOIN roles r/);
+    expect(db.queries[1].sql).toMatch(/FROM model_has_permissions mhp\s+JOIN permissions p/);
+    expect(db.queries[2].sql).toMatch(/JOIN role_has_permissions rhp/);
+  });
+
+  it('filters by team, guard and model type when configured', async () => {
+    await new SpatiePermissionResolver({
+      source: 'spatie',
+      guardName: 'api',
+      modelType: 'App\\Models\\Admin',
+      teamId: 3,
+      teamForeignKey: 'company_id',
+    }).resolve(7, db);
+
+    for (const query of db.queries) {
+      expect(query.params).toEqual([7, 'App\\Models\\Admin', 3, 'api']);
+      expect(query.sql).toMatch(/\.company_id = \?/);
+    }
+  });
+
+  it('reads custom table and column names', async () => {
+    await new SpatiePermissionResolver({
+      source: 'spatie',
+      tables: {
+        roles: 'acl_roles',
+        permissions: 'acl_permissions',
+        modelHasRoles: 'acl_model_roles',
+        modelHasPermissions: 'acl_model_permissions',
+        roleHasPermissions: 'acl_role_permissions',
+      },
+      modelMorphKey: 'user_uuid',
+    }).resolve(7, db);
+
+    expect(db.queries[0].sql).toMatch(/FROM acl_model_roles mhr\s+JOIN acl_roles r/);
+    expect(db.queries[1].sql).toMatch(/FROM acl_model_permissions mhp\s+JOIN acl_permissions p/);
+    expect(db.queries[2].sql).toMatch(/JOIN acl_role_permissions rhp/);
+    expect(db.queries[0].sql).toMatch(/mhr\.user_uuid = \?/);
+  });
+
+  it('rejects invalid table names', () => {
+    expect(
+      () => new SpatiePermissionResolver({ source: 'spatie', tables: { roles: 'roles r, users' } })
+    ).toThrow('Invalid identifier in permissions configuration: roles r, users');
+  });
+});
@@ -0,0 +1,93 @@
+import { PermissionResolver } from './PermissionResolver';
+import { DatabaseDialect, sqlIdentifier } from '../dialects/DatabaseDialect';
+import { SpatiePermissionsConfig } from '../../types';
+
+/**
+ * Roles and permissions from spatie/laravel-permission tables
+ * Permissions are the union of direct permissions and permissions granted through roles,
+ * filtered by guard name and, when teams are enabled, by team.
+ */
+export class SpatiePermissionResolver implements PermissionResolver {
+  private guardName: string;
+  private modelType: string;
+  private teamId?: string | number;
+  private tables: Required<NonNullable<SpatiePermissionsConfig['tables']>>;
+  private modelMorphKey: string;
+  private teamForeignKey: string;
+
+  constructor(config: SpatiePermissionsConfig) {
+    const identifier = (name: string) => sqlIdentifier(name, 'permissions');
+
+    this.guardName = config.guardName || 'web';
+    this.modelType = config.modelType || 'App\\Models\\User';
+    this.teamId = config.teamId;
+    this.tables = {
+      roles: identifier(config.tables?.roles || 'roles'),
+      permissions: identifier(config.tables?.permissions || 'permissions'),
+      modelHasRoles: identifier(config.tables?.modelHasRoles || 'model_has_roles'),
+      modelHasPermissions: identifier(config.tables?.modelHasPermissions || 'model_has_permissions'),
+      roleHasPermissions: identifier(config.tables?.roleHasPermissions || 'role_has_permissions'),
+    };
+    this.modelMorphKey = identifier(config.modelMorphKey || 'model_id');
+    this.teamForeignKey = identifier(config.teamForeignKey || 'team_id');
+  }
+
+  /**
+   * WHERE clause selecting the user's rows in a model_has_* pivot table
+   */
+  private modelConditions(alias: string, userId: number): { sql: string; params: any[] } {
+    const conditions = [`${alias}.${this.modelMorphKey} = ?`, `${alias}.model_type = ?`];
+    const params: any[] = [userId, this.modelType];
+
+    if (this.teamId !== undefined) {
+      conditions.push(`${alias}.${this.teamForeignKey} = ?`);
+      params.push(this.teamId);
+    }
+
+    return { sql: conditions.join(' AND '), params };
+  }
+
+  async resolve(userId: number, db: DatabaseDialect): Promise<any> {
+    const { roles, permissions, modelHasRoles, modelHasPermissions, roleHasPermissions } = this.tables;
+    const roleModel = this.modelConditions('mhr', userId);
+    const permissionModel = this.modelConditions('mhp', userId);
+
+    const roleRows = await db.query(
+      `SELECT r.name
+       FROM ${modelHasRoles} mhr
+       JOIN ${roles} r ON r.id = mhr.role_id
+       WHERE ${roleModel.sql} AND r.guard_name = ?
+       ORDER BY r.id`,
+      [...roleModel.params, this.guardName]
+    );
+
+    const directRows = await db.query(
+      `SELECT p.name
+       FROM ${modelHasPermissions} mhp
+       JOIN ${permissions} p ON p.id = mhp.permission_id
+       WHERE ${permissionModel.sql} AND p.guard_name = ?`,
+      [...permissionModel.params, this.guardName]
+    );
+
+    const viaRoleRows = await db.query(
+      `SELECT DISTINCT p.name
+       FROM ${modelHasRoles} mhr
+       JOIN ${roleHasPermissions} rhp ON rhp.role_id = mhr.role_id
+       JOIN ${permissions} p ON p.id = rhp.permission_id
+       WHERE ${roleModel.sql} AND p.guard_name = ?`,
+      [...roleModel.params, this.guardName]
+    );
+
+    const roleNames = roleRows.map(row => row.name);
+    const direct = directRows.map(row => row.name);
+    const viaRoles = viaRoleRows.map(row => row.name);
+
+    return {
+      role: roleNames.length > 0 ? roleNames[0] : null,
+      role_arr: roleNames,
+      permissions: Array.from(new Set([...direct, ...viaRoles])),
+      direct_permissions: direct,
+      role_permissions: viaRoles,
+    };
+  }
+}
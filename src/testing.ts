@@ -0,0 +1,3 @@
+// Testing helpers - no external dependencies
+export { MemoryStore } from './stores/MemoryStore';
+export { buildSession, buildSessionCookie } from './testing/fixtures';
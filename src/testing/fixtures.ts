@@ -0,0 +1,60 @@
+import { SessionDecoder } from '../decoders/SessionDecoder';
+import { SessionData, SessionFixture, SessionFixtureOptions } from '../types';
+import { randomString } from '../utils/random';
+
+/**
+ * Build a logged-in Laravel session for a user, as Laravel would store it
+ * Without an appKey the cookie value is the plain session ID (accepted when the client has no APP_KEY)
+ */
+export function buildSession(userId: number, options: SessionFixtureOptions = {}): SessionFixture {
+  const decoder = new SessionDecoder(options.appKey, undefined, false, {
+    cipher: options.cipher,
+    encrypt: options.encrypt,
+  });
+
+  const sessionId = options.sessionId || randomString(40);
+  const csrfToken = options.csrfToken || randomString(40);
+  const sessionData: SessionData = {
+    _token: csrfToken,
+    _previous: { url: options.previousUrl || '/' },
+    _flash: { old: [], new: [] },
+    [decoder.getAuthKey(options.guard)]: userId,
+  };
+
+  if (options.permissions !== undefined) {
+    sessionData[options.permissionsKey || 'permissions'] = options.permissions;
+  }
+  if (options.twoFactorVerified !== undefined) {
+    sessionData['2faVerify'] = options.twoFactorVerified ? 'true' : 'false';
+  }
+  Object.assign(sessionData, options.data);
+
+  return {
+    sessionId,
+    csrfToken,
+    sessionData,
+    cookieValue: options.appKey
+      ? buildSessionCookie(sessionId, options.appKey, options)
+      : sessionId,
+    record: {
+      id: sessionId,
+      user_id: userId,
+      ip_address: options.ipAddress || null,
+      user_agent: options.userAgent || null,
+      payload: decoder.encode(sessionData),
+      last_activity: options.lastActivity ?? Math.floor(Date.now() / 1000),
+    },
+  };
+}
+
+/**
+ * Encrypt a session ID into a `laravel_session` cookie value for the given APP_KEY
+ */
+export function buildSessionCookie(
+  sessionId: string,
+  appKey: string,
+  options: Pick<SessionFixtureOptions, 'cipher' | 'cookieName'> = {}
+): string {
+  const decoder = new SessionDecoder(appKey, undefined, false, { cipher: options.cipher });
+  return decoder.encryptCookie(options.cookieName || 'laravel_session', sessionId);
+}
@@ -3,6 +3,8 @@
  * Prevents CWE-312, CWE-359, and CWE-532 vulnerabilities
  */
 
+import { timingSafeEqual } from 'crypto';
+
 /**
  * Global log verbosity level
  * 'secure' = sanitized logs (default, recommended)
@@ -175,3 +177,11 @@ export function sanitizeError(error: any): string {
   return '[REDACTED ERROR]';
 }
 
+/**
+ * Constant-time string comparison (PHP's hash_equals)
+ */
+export function hashEquals(known: string, user: string): boolean {
+  const a = Buffer.from(known);
+  const b = Buffer.from(user);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,34 @@
+/**
+ * Parse a `Cookie` request header (Laravel URL-encodes cookie values, e.g. base64 `=` as %3D)
+ * The first occurrence of a name wins, like PHP's $_COOKIE
+ */
+export function parseCookies(header?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+    if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        // Malformed escapes are kept as sent
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+}
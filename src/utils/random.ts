@@ -0,0 +1,21 @@
+import * as crypto from 'crypto';
+
+const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Cryptographically secure alphanumeric string (equivalent of Laravel's Str::random)
+ */
+export function randomString(length: number): string {
+  let result = '';
+
+  while (result.length < length) {
+    for (const byte of crypto.randomBytes(length)) {
+      // Skip bytes that would bias the distribution (256 isn't a multiple of 62)
+      if (byte < 248 && result.length < length) {
+        result += ALPHANUMERIC[byte % ALPHANUMERIC.length];
+      }
+    }
+  }
+
+  return result;
+}
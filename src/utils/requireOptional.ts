@@ -0,0 +1,17 @@
+/**
+ * Load an optional peer dependency at runtime
+ * Keeps drivers the application doesn't use from being required at import time
+ */
+export function requireOptional<T = any>(moduleName: string, feature: string): T {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(moduleName);
+  } catch (error: any) {
+    if (error.code === 'MODULE_NOT_FOUND') {
+      throw new Error(
+        `The '${moduleName}' package is required for ${feature}. Install it with: npm install ${moduleName}`
+      );
+    }
+    throw error;
+  }
+}
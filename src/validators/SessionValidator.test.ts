@@ -0,0 +1,437 @@
+import * as crypto from 'crypto';
+import { LaravelSessionClient } from '../LaravelSessionClient';
+import { MemoryStore } from '../stores/MemoryStore';
+import { buildSession } from '../testing/fixtures';
+import { MemoryValidationCache } from '../cache/MemoryValidationCache';
+import { LaravelSessionConfig } from '../types';
+import { ipBinding, singleSession, twoFactor, userAgentBinding } from './rules';
+
+const appKey = `base64:${crypto.randomBytes(32).toString('base64')}`;
+
+describe('SessionValidator', () => {
+  let store: MemoryStore;
+
+  const createClient = (config: Partial<LaravelSessionConfig> = {}) =>
+    new LaravelSessionClient({ appKey, session: { driver: 'memory' }, store, ...config });
+
+  const login = async (userId: number, options: Parameters<typeof buildSession>[1] = {}) => {
+    const session = buildSession(userId, { appKey, ...options });
+    await store.writeSession(session.record);
+    return session;
+  };
+
+  beforeEach(() => {
+    store = new MemoryStore()
+      .addUser({ id: 1, email: 'user@example.com' }, 'Admin', { role: 'Admin', modules: ['users'] })
+      .addUser({ id: 2, email: 'shooter@example.com', session_id: 'current' }, 'Shooter');
+  });
+
+  it('validates a logged-in session from its encrypted cookie', async () => {
+    const session = await login(1);
+
+    const result = await createClient().validateSession(session.cookieValue);
+
+    expect(result).toMatchObject({
+      valid: true,
+      sessionId: session.sessionId,
+      user: { id: 1 },
+      guard: 'web',
+      csrfToken: session.csrfToken,
+    });
+  });
+
+  it('rejects unknown sessions and sessions without a logged-in user', async () => {
+    const guest = buildSession(1, { appKey, guard: 'admin' });
+    await store.writeSession(guest.record);
+    const client = createClient();
+
+    expect(await client.validateSession(buildSession(1, { appKey }).cookieValue)).toMatchObject({
+      valid: false,
+      error: 'Session not found',
+    });
+    expect(await client.validateSession(guest.cookieValue)).toMatchObject({
+      valid: false,
+      error: 'User not authenticated',
+    });
+  });
+
+  it('rejects sessions of deleted users', async () => {
+    const session = await login(3);
+
+    expect(await createClient().validateSession(session.cookieValue)).toMatchObject({
+      valid: false,
+      error: 'User not found or deleted',
+    });
+  });
+
+  it('rejects expired sessions', async () => {
+    const session = await login(1, { lastActivity: Math.floor(Date.now() / 1000) - 3 * 3600 });
+
+    const client = createClient({ session: { driver: 'memory', lifetime: 120 } });
+
+    expect(await client.validateSession(session.cookieValue)).toMatchObject({
+      valid: false,
+      error: 'Session expired',
+    });
+  });
+
+  it('reads permissions and role from the session payload first', async () => {
+    const session = await login(1, { permissions: { role: 'Editor', modules: ['posts'] } });
+
+    expect(await createClient().validateSession(session.cookieValue)).toMatchObject({
+      valid: true,
+      role: 'Editor',
+      permissions: { role: 'Editor', modules: ['posts'] },
+    });
+  });
+
+  it("falls back to the store's role and permissions", async () => {
+    const session = await login(1);
+
+    expect(await createClient().validateSession(session.cookieValue)).toMatchObject({
+      valid: true,
+      role: 'Admin',
+      permissions: { role: 'Admin', modules: ['users'] },
+    });
+  });
+
+  it('reads the role and permissions of custom guards from their provider', async () => {
+    store.addUser(
+      { id: 1, email: 'admin@example.com' },
+      'Super Admin',
+      { role: 'Super Admin' },
+      'admins'
+    );
+    const session = await login(1, { guard: 'admin' });
+
+    const client = createClient({
+      guards: ['web', { name: 'admin', provider: { table: 'admins' } }],
+    });
+
+    expect(await client.validateSession(session.cookieValue)).toMatchObject({
+      valid: true,
+      guard: 'admin',
+      user: { email: 'admin@example.com' },
+      role: 'Super Admin',
+    });
+  });
+
+  describe('default rules', () => {
+    it('invalidates Shooter sessions other than the current one', async () => {
+      const other = await login(2);
+      const current = await login(2, { sessionId: 'current' });
+      const client = createClient();
+
+      expect(await client.validateSession(other.cookieValue)).toMatchObject({
+        valid: false,
+        reason: 'shooter_single_session',
+      });
+      expect((await client.validateSession(current.cookieValue)).valid).toBe(true);
+    });
+
+    it('reads the role of users added with both a role and permissions', async () => {
+      store.addUser({ id: 8, email: 'shooter2@example.com', session_id: 'current' }, 'Shooter', {
+        modules: [],
+      });
+      const other = await login(8);
+
+      expect(await createClient().validateSession(other.cookieValue)).toMatchObject({
+        valid: false,
+        reason: 'shooter_single_session',
+      });
+      expect(await store.getUserPermissions(8)).toEqual({ role: 'Shooter', modules: [] });
+    });
+
+    it('requires a passed 2FA challenge when 2FA is enabled', async () => {
+      store.addUser({ id: 4, email: '2fa@example.com', google2fa_enable: 1 });
+      const pending = await login(4, { twoFactorVerified: false });
+      const verified = await login(4, { twoFactorVerified: true });
+      const client = createClient();
+
+      expect(await client.validateSession(pending.cookieValue)).toMatchObject({
+        valid: false,
+        reason: '2fa_required',
+      });
+      expect((await client.validateSession(verified.cookieValue)).valid).toBe(true);
+    });
+
+    it.each([
+      [1, true],
+      ['1', true],
+      [2, false],
+      [true, false],
+      ['false', false],
+      [null, false],
+    ])('challenges users with google2fa_enable %p: %p', async (enabled, challenged) => {
+      store.addUser({ id: 4, email: '2fa@example.com', google2fa_enable: enabled as any });
+      const session = await login(4, { twoFactorVerified: false });
+
+      const result = await createClient().validateSession(session.cookieValue);
+
+      expect(result.valid).toBe(!challenged);
+    });
+  });
+
+  describe('configured rules', () => {
+    it('reads the enabled value from the options', async () => {
+      store.addUser({ id: 4, email: '2fa@example.com', two_factor_enabled: true });
+      const session = await login(4, { twoFactorVerified: false });
+      const client = createClient({
+        rules: [twoFactor({ enabledColumn: 'two_factor_enabled', enabledValue: true })],
+      });
+
+      expect(await client.validateSession(session.cookieValue)).toMatchObject({
+        valid: false,
+        reason: '2fa_required',
+      });
+    });
+
+    it('applies single sessions to every role without a roles filter', async () => {
+      store.addUser({ id: 5, email: 'one@example.com', session_id: 'current' }, 'Admin');
+      const session = await login(5);
+
+      const result = await createClient({ rules: [singleSession()] }).validateSession(
+        session.cookieValue
+      );
+
+      expect(result).toMatchObject({ valid: false, reason: 'single_session' });
+    });
+
+    it('reads nested 2FA session keys with dot notation', async () => {
+      store.addUser({ id: 4, email: '2fa@example.com', two_factor_enabled: 1 });
+      const pending = await login(4, { data: { auth: { password_confirmed_at: 1 } } });
+      const verified = await login(4, { data: { auth: { '2fa_passed': true } } });
+      const client = createClient({
+        rules: [
+          twoFactor({
+            enabledColumn: 'two_factor_enabled',
+            sessionKey: 'auth.2fa_passed',
+            verifiedValue: true,
+          }),
+        ],
+      });
+
+      expect(await client.validateSession(pending.cookieValue)).toMatchObject({
+        valid: false,
+        reason: '2fa_required',
+      });
+      expect((await client.validateSession(verified.cookieValue)).valid).toBe(true);
+    });
+
+    it('binds sessions to their IP address and user agent', async () => {
+      const session = await login(1, { ipAddress: '10.0.0.1', userAgent: 'Browser' });
+      const client = createClient({ rules: [ipBinding(), userAgentBinding()] });
+
+      expect(
+        (
+          await client.validateSession(session.cookieValue, {
+            ipAddress: '10.0.0.1',
+            userAgent: 'Browser',
+          })
+        ).valid
+      ).toBe(true);
+      expect(
+        await client.validateSession(session.cookieValue, {
+          ipAddress: '10.0.0.2',
+          userAgent: 'Browser',
+        })
+      ).toMatchObject({ valid: false, reason: 'ip_mismatch' });
+      expect(
+        await client.validateSession(session.cookieValue, {
+          ipAddress: '10.0.0.1',
+          userAgent: 'Bot',
+        })
+      ).toMatchObject({ valid: false, reason: 'user_agent_mismatch' });
+    });
+
+    it('runs custom rules with the resolved context', async () => {
+      const session = await login(1);
+      const check = jest.fn().mockReturnValue({ reason: 'blocked', error: 'Blocked' });
+
+      const result = await createClient({ rules: [{ name: 'custom', check }] }).validateSession(
+        session.cookieValue
+      );
+
+      expect(result).toMatchObject({ valid: false, reason: 'blocked', error: 'Blocked' });
+      expect(check).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: session.sessionId,
+          userId: 1,
+          role: 'Admin',
+          guard: 'web',
+        })
+      );
+    });
+  });
+
+  describe('remember cookie', () => {
+    const rememberToken = 'a'.repeat(60);
+
+    const rememberCookie = (client: LaravelSessionClient, recaller: string) =>
+      client.encryptCookie(client.getRememberCookieName(), recaller);
+
+    beforeEach(() => {
+      store.addUser(
+        { id: 7, email: 'remember@example.com', remember_token: rememberToken, password: 'hash' },
+        'Admin'
+      );
+    });
+
+    it('authenticates with a valid recaller', async () => {
+      const client = createClient();
+
+      const result = await client.validateRememberCookie(
+        rememberCookie(client, `7|${rememberToken}|hash`)
+      );
+
+      expect(result).toMatchObject({
+        valid: true,
+        viaRemember: true,
+        user: { id: 7 },
+        role: 'Admin',
+      });
+      expect(result.sessionId).toBeUndefined();
+    });
+
+    it('rejects wrong tokens and unreadable cookies', async () => {
+      const client = createClient();
+
+      expect(
+        await client.validateRememberCookie(rememberCookie(client, `7|${'b'.repeat(60)}|hash`))
+      ).toMatchObject({ valid: false, reason: 'remember_token_mismatch' });
+      expect(await client.validateRememberCookie('not-a-cookie')).toMatchObject({
+        valid: false,
+        reason: 'remember_invalid',
+      });
+    });
+
+    it('authenticates users with string primary keys', async () => {
+      const uuid = '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d';
+      store.addUser(
+        { id: uuid as any, email: 'uuid@example.com', remember_token: rememberToken },
+        'Admin'
+      );
+      const client = createClient();
+
+      expect(
+        await client.validateRememberCookie(rememberCookie(client, `${uuid}|${rememberToken}|`))
+      ).toMatchObject({ valid: true, viaRemember: true, user: { id: uuid } });
+      expect(
+        await client.validateRememberCookie(rememberCookie(client, `|${rememberToken}|`))
+      ).toMatchObject({ valid: false, reason: 'remember_invalid' });
+    });
+
+    it('falls back to the remember cookie when the session is gone', async () => {
+      const client = createClient();
+
+      const result = await client.validateSession(buildSession(7, { appKey }).cookieValue, {
+        rememberCookie: rememberCookie(client, `7|${rememberToken}|hash`),
+      });
+
+      expect(result).toMatchObject({ valid: true, viaRemember: true });
+    });
+
+    it('creates a new session when asked', async () => {
+      const client = createClient();
+
+      const result = await client.validateRememberCookie(
+        rememberCookie(client, `7|${rememberToken}|hash`),
+        { createSession: true }
+      );
+
+      expect(result).toMatchObject({ valid: true, viaRemember: true });
+      expect(result.newSession).toBeDefined();
+      expect(await store.getSession(result.newSession!.sessionId)).not.toBeNull();
+    });
+
+    it('requires the current password hash when password hashes are validated', async () => {
+      const client = createClient({ validatePasswordHash: true });
+
+      expect(
+        await client.validateRememberCookie(rememberCookie(client, `7|${rememberToken}|old`))
+      ).toMatchObject({ valid: false, reason: 'password_changed' });
+      expect(
+        (await client.validateRememberCookie(rememberCookie(client, `7|${rememberToken}|hash`)))
+          .valid
+      ).toBe(true);
+    });
+  });
+
+  describe('password hash invalidation', () => {
+    const hmac = (hash: string) =>
+      crypto
+        .createHmac('sha256', Buffer.from(appKey.slice(7), 'base64'))
+        .update(hash)
+        .digest('hex');
+
+    beforeEach(() => {
+      store.addUser({ id: 6, email: 'hash@example.com', password: '$2y$12$current' }, 'Admin');
+    });
+
+    it('accepts sessions storing the current hash, raw or as an HMAC', async () => {
+      const raw = await login(6, { data: { password_hash_web: '$2y$12$current' } });
+      const hashed = await login(6, { data: { password_hash_web: hmac('$2y$12$current') } });
+      const client = createClient({ validatePasswordHash: true });
+
+      expect((await client.validateSession(raw.cookieValue)).valid).toBe(true);
+      expect((await client.validateSession(hashed.cookieValue)).valid).toBe(true);
+    });
+
+    it('invalidates sessions after a password change', async () => {
+      const session = await login(6, { data: { password_hash_web: '$2y$12$previous' } });
+
+      expect(
+        await createClient({ validatePasswordHash: true }).validateSession(session.cookieValue)
+      ).toMatchObject({ valid: false, reason: 'password_changed' });
+      expect((await createClient().validateSession(session.cookieValue)).valid).toBe(true);
+    });
+
+    it('accepts sessions without a stored hash, like Laravel', async () => {
+      const session = await login(6);
+
+      expect(
+        (await createClient({ validatePasswordHash: true }).validateSession(session.cookieValue))
+          .valid
+      ).toBe(true);
+    });
+  });
+
+  it('validates many sessions at once', async () => {
+    const first = await login(1);
+    const second = await login(3);
+
+    const results = await createClient().validateSessions([first.cookieValue, second.cookieValue]);
+
+    expect(results.get(first.cookieValue)?.valid).toBe(true);
+    expect(results.get(second.cookieValue)).toMatchObject({
+      valid: false,
+      error: 'User not found or deleted',
+    });
+  });
+
+  it('reads cached results of a batch with one cache call', async () => {
+    const first = await login(1);
+    const second = await login(1);
+    const cache = new MemoryValidationCache();
+    const getMany = jest.fn(async (sessionIds: string[]) => {
+      const entries = new Map();
+      for (const sessionId of sessionIds) {
+        entries.set(sessionId, await cache.get(sessionId));
+      }
+      return entries;
+    });
+    const client = createClient({ cache: { instance: Object.assign(cache, { getMany }) } });
+    await client.validateSession(first.cookieValue);
+    store.clear();
+
+    const results = await client.validateSessions([first.cookieValue, second.cookieValue]);
+
+    expect(getMany).toHaveBeenCalledTimes(1);
+    expect(getMany).toHaveBeenCalledWith([first.sessionId, second.sessionId]);
+    expect(results.get(first.cookieValue)?.valid).toBe(true);
+    expect(results.get(second.cookieValue)).toMatchObject({
+      valid: false,
+      error: 'Session not found',
+    });
+  });
+});
@@ -1,18 +1,60 @@
 import { SessionDecoder } from '../decoders/SessionDecoder';
 import { StoreInterface } from '../stores/StoreInterface';
-import { SessionValidationResult, LaravelSessionConfig } from '../types';
+import {
+  SessionValidationResult,
+  LaravelSessionConfig,
+  GuardConfig,
+  LaravelUser,
+  SessionData,
+  SessionRecord,
+  ValidationRequest,
+  ValidationRule,
+  UserProviderConfig,
+} from '../types';
+import { defaultRules } from './rules';
 import { sanitizeSessionId, sanitizeError, shouldSanitize } from '../utils/SecurityUtils';
 
+type UserLookup = (userId: number, provider?: UserProviderConfig) => Promise<LaravelUser | null>;
+type PasswordHashLookup = (user: LaravelUser, provider?: UserProviderConfig) => Promise<string | null>;
+
+/**
+ * Where validation reads users and password hashes: the store, or what a batch loaded up front
+ */
+interface Lookups {
+  user: UserLookup;
+  passwordHash: PasswordHashLookup;
+}
+
+interface DecodedSession {
+  session: SessionRecord;
+  sessionData: SessionData;
+  expiresAt: number;
+}
+
+type ReadSession = DecodedSession | { failure: SessionValidationResult };
+
 export class SessionValidator {
   private decoder: SessionDecoder;
   private store: StoreInterface;
   private sessionLifetime: number;
+  private guards: GuardConfig[];
+  private validatePasswordHash: boolean;
+  private rules: ValidationRule[];
+  private lookups: Lookups = {
+    user: (userId, provider) => this.store.getUser(userId, provider),
+    passwordHash: (user, provider) => this.store.getUserPasswordHash(user, provider),
+  };
   private debug: boolean;
 
   constructor(decoder: SessionDecoder, store: StoreInterface, config: LaravelSessionConfig) {
     this.decoder = decoder;
     this.store = store;
     this.sessionLifetime = config.session.lifetime || 1000;
+    this.validatePasswordHash = config.validatePasswordHash || false;
+    this.guards = (config.guards || ['web']).map(guard =>
+      typeof guard === 'string' ? { name: guard } : guard
+    );
+    this.rules = config.rules || defaultRules();
     this.debug = config.debug || false;
   }
 
@@ -22,7 +64,10 @@ export class SessionValidator {
     }
   }
 
-  async validate(sessionId: string): Promise<SessionValidationResult> {
+  async validate(
+    sessionId: string,
+    request: ValidationRequest = {}
+  ): Promise<SessionValidationResult> {
     // Step 1: Validate session ID
     if (!sessionId) {
       return {
@@ -36,11 +81,124 @@ export class SessionValidator {
     // Step 2: Get session from store
     const session = await this.store.getSession(sessionId);
 
+    const read = this.readSession(session);
+    return 'failure' in read
+      ? read.failure
+      : this.validateDecoded(sessionId, read, request, this.lookups);
+  }
+
+  /**
+   * Validate many sessions with one session read and one user query per provider
+   * (for stores with getSessions/getUsers; others are read one at a time)
+   * @returns Results keyed by session ID
+   */
+  async validateMany(
+    sessionIds: string[],
+    request: ValidationRequest = {}
+  ): Promise<Map<string, SessionValidationResult>> {
+    const results = new Map<string, SessionValidationResult>();
+    const ids = Array.from(new Set(sessionIds.filter(Boolean)));
+    if (ids.length === 0) {
+      return results;
+    }
+
+    this.log('🔍 Validating', ids.length, 'sessions');
+
+    // Step 2: Get all sessions from store
+    const sessions = this.store.getSessions
+      ? await this.store.getSessions(ids)
+      : new Map(
+          (await Promise.all(ids.map(async id => [id, await this.store.getSession(id)] as const)))
+            .filter((entry): entry is readonly [string, SessionRecord] => entry[1] !== null)
+        );
+
+    // Steps 3-4: Check expiry and decode each payload
+    const reads = new Map(ids.map(id => [id, this.readSession(sessions.get(id) || null)]));
+
+    // Collect the user IDs of every guard in every session, per provider
+    const userIds = new Map<UserProviderConfig | undefined, Set<number>>();
+    for (const read of reads.values()) {
+      if ('failure' in read) {
+        continue;
+      }
+
+      for (const guard of this.guards) {
+        const userId = this.decoder.getUserId(read.sessionData, guard.name);
+        if (userId) {
+          const providerIds = userIds.get(guard.provider) || new Set<number>();
+          providerIds.add(userId);
+          userIds.set(guard.provider, providerIds);
+        }
+      }
+    }
+
+    // Step 6 (batched): Get the users of each provider at once
+    const users = new Map<UserProviderConfig | undefined, Map<number, LaravelUser>>();
+    for (const [provider, providerIds] of userIds) {
+      users.set(
+        provider,
+        this.store.getUsers
+          ? await this.store.getUsers(Array.from(providerIds), provider)
+          : await this.lookupUsers(Array.from(providerIds), provider)
+      );
+    }
+
+    // Step 6b (batched): Get the password hashes of those users at once
+    const passwordHashes = new Map<UserProviderConfig | undefined, Map<number, string>>();
+    if (this.validatePasswordHash && this.store.getUserPasswordHashes) {
+      for (const [provider, providerUsers] of users) {
+        if (providerUsers.size > 0) {
+          passwordHashes.set(
+            provider,
+            await this.store.getUserPasswordHashes(Array.from(providerUsers.values()), provider)
+          );
+        }
+      }
+    }
+
+    const lookups: Lookups = {
+      user: async (userId, provider) => users.get(provider)?.get(userId) || null,
+      passwordHash: async (user, provider) => {
+        const hashes = passwordHashes.get(provider);
+        return hashes ? hashes.get(user.id) ?? null : this.lookups.passwordHash(user, provider);
+      },
+    };
+
+    for (const [id, read] of reads) {
+      results.set(
+        id,
+        'failure' in read ? read.failure : await this.validateDecoded(id, read, request, lookups)
+      );
+    }
+
+    return results;
+  }
+
+  private async lookupUsers(
+    userIds: number[],
+    provider?: UserProviderConfig
+  ): Promise<Map<number, LaravelUser>> {
+    const users = new Map<number, LaravelUser>();
+    for (const userId of userIds) {
+      const user = await this.store.getUser(userId, provider);
+      if (user) {
+        users.set(userId, user);
+      }
+    }
+    return users;
+  }
+
+  /**
+   * Check a stored session's expiry and decode its payload (steps 3-4 of validate)
+   */
+  private readSession(session: SessionRecord | null): ReadSession {
     if (!session) {
       this.log('❌ Session not found in store');
       return {
-        valid: false,
-        error: 'Session not found',
+        failure: {
+          valid: false,
+          error: 'Session not found',
+        },
       };
     }
 
@@ -52,12 +210,20 @@ export class SessionValidator {
     const lastActivity = session.last_activity;
     const lifetimeSeconds = this.sessionLifetime * 60;
     const currentTime = Math.floor(Date.now() / 1000);
+    // Stores with native expiry (Redis TTL) report it directly
+    const expired =
+      session.expires_at !== undefined
+        ? session.expires_at <= currentTime
+        : currentTime - lastActivity > lifetimeSeconds;
+    const expiresAt = session.expires_at ?? lastActivity + lifetimeSeconds;
 
-    if (currentTime - lastActivity > lifetimeSeconds) {
+    if (expired) {
       this.log('❌ Session expired');
       return {
-        valid: false,
-        error: 'Session expired',
+        failure: {
+          valid: false,
+          error: 'Session expired',
+        },
       };
     }
 
@@ -70,15 +236,19 @@ export class SessionValidator {
     } catch (error: any) {
       this.log('❌ Failed to decode session:', error.message);
       return {
-        valid: false,
-        error: 'Failed to decode session',
+        failure: {
+          valid: false,
+          error: 'Failed to decode session',
+        },
       };
     }
 
     if (!sessionData) {
       return {
-        valid: false,
-        error: 'Failed to decode session payload',
+        failure: {
+          valid: false,
+          error: 'Failed to decode session payload',
+        },
       };
     }
 
@@ -91,10 +261,74 @@ export class SessionValidator {
       this.log('   Full session data:', JSON.stringify(sessionData, null, 2));
     }
 
-    // Step 5: Get user ID from session
-    const userId = this.decoder.getUserId(sessionData);
+    return { session, sessionData, expiresAt };
+  }
+
+  /**
+   * Validate the user of a decoded session (steps 5-9 of validate)
+   */
+  private async validateDecoded(
+    sessionId: string,
+    read: DecodedSession,
+    request: ValidationRequest,
+    lookups: Lookups
+  ): Promise<SessionValidationResult> {
+    const result = await this.validateUser(
+      sessionId,
+      read.sessionData,
+      request,
+      read.session,
+      lookups
+    );
+    if (result.valid) {
+      result.expiresAt = read.expiresAt;
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate the authenticated user of decoded session data (steps 5-9 of validate)
+   * The payload is decoded once; the store is only asked for users and for roles and
+   * permissions the session doesn't carry
+   * Also used for remember-me logins, which have no stored session yet
+   * @param user - User already loaded for the session's guard (remember-me logins), so it isn't fetched again
+   */
+  async validateSessionData(
+    sessionId: string,
+    sessionData: SessionData,
+    request: ValidationRequest = {},
+    session: SessionRecord | null = null,
+    user?: LaravelUser
+  ): Promise<SessionValidationResult> {
+    const lookups: Lookups = user
+      ? {
+          ...this.lookups,
+          user: async (userId, provider) =>
+            String(userId) === String(user.id) ? user : this.lookups.user(userId, provider),
+        }
+      : this.lookups;
+
+    return this.validateUser(sessionId, sessionData, request, session, lookups);
+  }
+
+  private async validateUser(
+    sessionId: string,
+    sessionData: SessionData,
+    request: ValidationRequest,
+    session: SessionRecord | null,
+    lookups: Lookups
+  ): Promise<SessionValidationResult> {
+    // Step 5: Get user IDs from session (one per logged-in guard)
+    const guardUserIds = new Map<GuardConfig, number>();
+    for (const guard of this.guards) {
+      const guardUserId = this.decoder.getUserId(sessionData, guard.name);
+      if (guardUserId) {
+        guardUserIds.set(guard, guardUserId);
+      }
+    }
 
-    if (!userId) {
+    if (guardUserIds.size === 0) {
       this.log('❌ User not authenticated');
       return {
         valid: false,
@@ -103,15 +337,33 @@ export class SessionValidator {
     }
 
     if (shouldSanitize()) {
-      this.log('✅ User authenticated');
+      this.log('✅ User authenticated, guards:', guardUserIds.size);
     } else {
-      this.log('✅ User authenticated, ID:', userId);
+      this.log('✅ User authenticated:', Array.from(guardUserIds, ([guard, id]) => `${guard.name}=${id}`));
     }
 
-    // Step 6: Get user from database
-    const user = await this.store.getUser(userId);
+    // Step 6: Get users from database, each from its guard's provider
+    // The first configured guard with an existing user authenticates the session
+    const guardUsers: Record<string, LaravelUser> = {};
+    let guard: GuardConfig | undefined;
+    let userId = 0;
+    let user: LaravelUser | undefined;
+
+    for (const [guardConfig, guardUserId] of guardUserIds) {
+      const guardUser = await lookups.user(guardUserId, guardConfig.provider);
+      if (!guardUser) {
+        continue;
+      }
+
+      guardUsers[guardConfig.name] = guardUser;
+      if (!user) {
+        guard = guardConfig;
+        userId = guardUserId;
+        user = guardUser;
+      }
+    }
 
-    if (!user) {
+    if (!user || !guard) {
       this.log('❌ User not found or deleted');
       return {
         valid: false,
@@ -119,50 +371,35 @@ export class SessionValidator {
       };
     }
 
-    this.log('✅ User found in database');
-
-    // Step 7: Get user role
-    const role = await this.store.getUserRole(userId);
-
-    this.log('✅ User role:', role);
-
-    // Step 8: Check single session enforcement for Shooters
-    if (role === 'Shooter' && user.session_id) {
-      if (user.session_id !== sessionId) {
-        this.log('❌ Shooter single session check failed');
-        this.log('   Session mismatch detected');
-        return {
-          valid: false,
-          error: 'Session invalidated. You were logged in elsewhere.',
-          reason: 'shooter_single_session',
-        };
-      }
-      this.log('✅ Shooter single session check passed');
-    }
+    this.log('✅ User found in database, guard:', guard.name);
 
-    // Step 9: Check 2FA verification (if required)
-    if (user.google2fa_enable === 1) {
-      const is2FAVerified = this.decoder.is2FAVerified(sessionData);
-      if (!is2FAVerified) {
-        this.log('❌ 2FA verification required');
+    // Step 6b: Check the password hash stored by Laravel's AuthenticateSession middleware
+    // Sessions without one are accepted, like Laravel (it stores the hash on the next request)
+    const storedPasswordHash = sessionData[`password_hash_${guard.name}`];
+    if (this.validatePasswordHash && storedPasswordHash) {
+      const passwordHash = await lookups.passwordHash(user, guard.provider);
+      if (!passwordHash || !this.decoder.verifyPasswordHash(passwordHash, storedPasswordHash)) {
+        this.log('❌ Password hash check failed');
         return {
           valid: false,
-          error: '2FA verification required',
-          reason: '2fa_required',
+          error: 'Session invalidated. The password was changed.',
+          reason: 'password_changed',
         };
       }
-      this.log('✅ 2FA verified');
+      this.log('✅ Password hash check passed');
     }
 
-    // Step 10: Get permissions from session payload first, then fall back to database
-    this.log('🔍 Step 10: Getting permissions...');
+    // Step 7: Get permissions from the decoded session payload first, then fall back to the store
+    this.log('🔍 Step 7: Getting permissions...');
     let permissions = this.decoder.getPermissions(sessionData);
-    
+    let roleFromStore = false;
+
     // If permissions not in session payload, fetch from database
     if (!permissions) {
       this.log('⚠️  Permissions not found in session payload, fetching from database...');
       try {
-        permissions = await this.store.getUserPermissions(userId);
+        permissions = await this.store.getUserPermissions(userId, guard.provider);
+        roleFromStore = permissions === null || permissions === undefined;
         this.log('✅ Permissions fetched from database successfully');
       } catch (error: any) {
         this.log('❌ Failed to fetch permissions from database:', sanitizeError(error));
@@ -176,6 +413,47 @@ export class SessionValidator {
       }
     }
 
+    // Step 8: Get the role from the permissions
+    // Permissions are authoritative (no role key means no role), whether from the session or the
+    // store; getUserRole is only asked when the store has no permissions for the user, since
+    // database roles come from the same permission queries
+    let role: string | null = permissions?.role ?? null;
+    if (roleFromStore) {
+      try {
+        role = await this.store.getUserRole(userId, guard.provider);
+      } catch (error: any) {
+        this.log('❌ Failed to fetch role from database:', sanitizeError(error));
+        role = null;
+      }
+    }
+
+    this.log('✅ User role:', role);
+
+    // Step 9: Run the configured rules (single session, 2FA, ...)
+    for (const rule of this.rules) {
+      const failure = await rule.check({
+        sessionId,
+        session,
+        sessionData,
+        userId,
+        user,
+        guard: guard.name,
+        role,
+        permissions,
+        request,
+      });
+
+      if (failure) {
+        this.log(`❌ Rule ${rule.name} failed:`, failure.reason);
+        return {
+          valid: false,
+          error: failure.error,
+          reason: failure.reason,
+        };
+      }
+      this.log(`✅ Rule ${rule.name} passed`);
+    }
+
     this.log('🎉 Session validation successful!');
     if (!shouldSanitize()) {
       this.log('Final permissions object:', permissions);
@@ -188,6 +466,8 @@ export class SessionValidator {
       role: role || undefined,
       permissions: permissions,
       sessionId: sessionId,
+      guard: guard.name,
+      guards: guardUsers,
       csrfToken: this.decoder.getCsrfToken(sessionData) || undefined,
     };
   }
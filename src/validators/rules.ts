@@ -0,0 +1,114 @@
+import {
+  SingleSessionRuleOptions,
+  TwoFactorRuleOptions,
+  ValidationRule,
+} from '../types';
+
+/**
+ * Allow users one session at a time, like apps that store the current session ID on the user
+ * Sessions other than the user's current one are invalidated
+ */
+export function singleSession<Reason extends string = 'single_session'>(
+  options: SingleSessionRuleOptions<Reason> = {}
+): ValidationRule<Reason> {
+  const column = options.column || 'session_id';
+  const reason = options.reason || ('single_session' as Reason);
+
+  return {
+    name: 'singleSession',
+    check: ({ user, role, sessionId }) => {
+      if (options.roles && (!role || !options.roles.includes(role))) {
+        return null;
+      }
+      if (!user[column] || user[column] === sessionId) {
+        return null;
+      }
+      return { reason, error: 'Session invalidated. You were logged in elsewhere.' };
+    },
+  };
+}
+
+/**
+ * Read a session value like Laravel's session()->get(): the exact key first, then dot notation
+ * (session()->put('auth.2fa_passed', true) stores ['auth' => ['2fa_passed' => true]])
+ */
+function sessionValue(sessionData: Record<string, any>, key: string): any {
+  if (key in sessionData) {
+    return sessionData[key];
+  }
+
+  let value: any = sessionData;
+  for (const segment of key.split('.')) {
+    if (!value || typeof value !== 'object' || !(segment in value)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Require a passed 2FA challenge from users with 2FA enabled
+ */
+export function twoFactor(options: TwoFactorRuleOptions = {}): ValidationRule<'2fa_required'> {
+  const enabledColumn = options.enabledColumn || 'google2fa_enable';
+  const enabledValue = String(options.enabledValue ?? 1);
+  const sessionKey = options.sessionKey || '2faVerify';
+  const verifiedValue = options.verifiedValue ?? 'true';
+
+  return {
+    name: 'twoFactor',
+    check: ({ user, sessionData }) => {
+      // Compared as strings, so drivers returning TINYINT columns as '1' still match
+      if (String(user[enabledColumn]) !== enabledValue) {
+        return null;
+      }
+      if (sessionValue(sessionData, sessionKey) === verifiedValue) {
+        return null;
+      }
+      return { reason: '2fa_required', error: '2FA verification required' };
+    },
+  };
+}
+
+/**
+ * Require requests to come from the IP address stored with the session
+ * Passes when either address is unknown (remember-me logins, stores without session metadata)
+ */
+export function ipBinding(): ValidationRule<'ip_mismatch'> {
+  return {
+    name: 'ipBinding',
+    check: ({ session, request }) => {
+      if (!session?.ip_address || !request.ipAddress || session.ip_address === request.ipAddress) {
+        return null;
+      }
+      return { reason: 'ip_mismatch', error: 'Session invalidated. The IP address changed.' };
+    },
+  };
+}
+
+/**
+ * Require requests to come from the user agent stored with the session
+ * Passes when either user agent is unknown (remember-me logins, stores without session metadata)
+ */
+export function userAgentBinding(): ValidationRule<'user_agent_mismatch'> {
+  return {
+    name: 'userAgentBinding',
+    check: ({ session, request }) => {
+      if (!session?.user_agent || !request.userAgent || session.user_agent === request.userAgent) {
+        return null;
+      }
+      return {
+        reason: 'user_agent_mismatch',
+        error: 'Session invalidated. The user agent changed.',
+      };
+    },
+  };
+}
+
+/**
+ * Rules used when the config has none: single sessions for Shooters and 2FA
+ */
+export function defaultRules(): ValidationRule[] {
+  return [singleSession({ roles: ['Shooter'], reason: 'shooter_single_session' }), twoFactor()];
+}
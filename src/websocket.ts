@@ -0,0 +1,9 @@
+// WebSocket and Socket.IO adapters - work with 'ws' and 'socket.io' without depending on them
+export {
+  createSocketIoMiddleware,
+  createWebSocketAuthenticator,
+  validateUpgradeRequest,
+  SocketIoSocketLike,
+  WebSocketLike,
+  WebSocketAuthOptions,
+} from './middleware/websocket';